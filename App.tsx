@@ -1,12 +1,30 @@
 import React, { useState, useEffect, useRef, ErrorInfo, ReactNode } from 'react';
-import { MOCK_USERS, INITIAL_REMINDERS, getTodayString, DEFAULT_REMINDER_TYPES } from './constants';
-import { User, Reminder, VoiceSettings, AISettings, AIProvider, CloudSettings, ReminderTypeDefinition } from './types';
+import { MOCK_USERS, INITIAL_REMINDERS, getTodayString, DEFAULT_REMINDER_TYPES, DEFAULT_GRACE_MINUTES } from './constants';
+import { User, Reminder, VoiceSettings, AISettings, AIProvider, CloudSettings, ReminderTypeDefinition, HistoryEvent, HolidayCalendar, Medication, MedicationDraft, Measurement } from './types';
 import VoiceInput from './components/VoiceInput';
 import AlarmOverlay from './components/AlarmOverlay';
 import ManualInputModal from './components/ManualInputModal';
 import SettingsModal from './components/SettingsModal';
 import CalendarView from './components/CalendarView';
 import { updateCloudBackup } from './services/cloudService';
+import { isRecurring, describeRecurrence } from './services/recurrence';
+import { getReminderTimes, isSlotCompleted, isSlotResolved, getSlotDueTime, slotKey, getLeadTimes, describeLeadTime } from './services/reminderSlots';
+import { isForeignTimeZone, formatTimeInZone, formatDateInZone, getTimeZoneLabel } from './services/timeZone';
+import { SchedulerContext, PreAlert, systemClock, armTimer, getNextMidnight, collectDueAlarms, getNextWakeUp, applyDueAlarms, closeSlots, snoozeReminders, autoSnoozeReminders, getSeriesProgress, getUpcomingAlarms, applyReminderEdit } from './services/scheduler';
+import { createHistoryEvent, appendHistory, pruneHistory } from './services/history';
+import ReportView from './components/ReportView';
+import MeasurementView from './components/MeasurementView';
+import MeasurementInputModal, { MeasurementRequest } from './components/MeasurementInputModal';
+import { setHolidayCalendar, parseHolidayCalendar } from './services/holidays';
+import { getQuietDeferral, getAlarmVolume, isInQuietHours } from './services/quietHours';
+import { describeFields } from './services/customFields';
+import { adjustStock, needsRefillReminder, createRefillReminder, describeStock, isRunningLow } from './services/medication';
+import { AlarmLink, NotificationPermissionState, NOTIFICATION_HORIZON_MS, getNotificationPermission, requestNotificationPermission, registerServiceWorker, buildNotificationSchedule, syncNotificationSchedule, parseAlarmLink } from './services/notificationService';
+import { pruneAttachments } from './services/attachments';
+import AttachmentPhoto from './components/AttachmentPhoto';
+import BriefingCard from './components/BriefingCard';
+import { composeBriefing, getDueBriefings } from './services/briefing';
+import { speakAloud } from './services/speech';
 import { v4 as uuidv4 } from 'uuid';
 
 // --- Error Boundary Component ---
@@ -67,7 +85,7 @@ const getColorName = (bgClass: string) => {
     return bgClass.replace('bg-', '').replace('-500', '');
 };
 
-type ViewMode = 'home' | 'user' | 'calendar';
+type ViewMode = 'home' | 'user' | 'calendar' | 'report' | 'health';
 
 // --- Internal Confirmation Modal Component ---
 interface ConfirmModalProps {
@@ -132,6 +150,42 @@ const AppContent: React.FC = () => {
       } catch { return DEFAULT_REMINDER_TYPES; }
   });
 
+  const [history, setHistory] = useState<HistoryEvent[]>(() => {
+      try {
+          const saved = localStorage.getItem('family_history');
+          return saved ? pruneHistory(JSON.parse(saved), Date.now()) : [];
+      } catch { return []; }
+  });
+
+  const [medications, setMedications] = useState<Medication[]>(() => {
+      try {
+          const saved = localStorage.getItem('family_medications');
+          return saved ? JSON.parse(saved) : [];
+      } catch { return []; }
+  });
+
+  const [measurements, setMeasurements] = useState<Measurement[]>(() => {
+      try {
+          const saved = localStorage.getItem('family_measurements');
+          return saved ? JSON.parse(saved) : [];
+      } catch { return []; }
+  });
+
+  // Reading asked for after completing a measurement reminder, or entered by hand from the health view
+  const [pendingMeasurement, setPendingMeasurement] = useState<MeasurementRequest | null>(null);
+
+  // Imported holiday data, overrides the bundled calendar for the years it covers
+  const [customHolidays, setCustomHolidays] = useState<HolidayCalendar | null>(() => {
+      try {
+          const saved = localStorage.getItem('family_holiday_calendar');
+          const parsed = saved ? parseHolidayCalendar(JSON.parse(saved)) : null;
+          setHolidayCalendar(parsed);
+          return parsed;
+      } catch { return null; }
+  });
+
+  const [householdDnd, setHouseholdDnd] = useState<boolean>(() => localStorage.getItem('family_dnd') === 'true');
+
   const [reminders, setReminders] = useState<Reminder[]>(() => {
     try {
         const saved = localStorage.getItem('family_reminders');
@@ -165,7 +219,8 @@ const AppContent: React.FC = () => {
             moonshot: { apiKey: '', baseUrl: 'https://api.moonshot.cn/v1', model: 'moonshot-v1-8k' },
             siliconflow: { apiKey: '', baseUrl: 'https://api.siliconflow.cn/v1', model: 'Qwen/Qwen2.5-7B-Instruct' },
             openai: { apiKey: '', baseUrl: 'https://api.openai.com/v1', model: 'gpt-3.5-turbo' },
-            custom: { apiKey: '', baseUrl: 'http://localhost:11434/v1', model: 'llama3' }
+            custom: { apiKey: '', baseUrl: 'http://localhost:11434/v1', model: 'llama3' },
+            offline: { apiKey: '', baseUrl: '', model: '' }
         }
     };
 
@@ -185,7 +240,10 @@ const AppContent: React.FC = () => {
         }
         let active = parsed.activeProvider;
         if (!active || !safeConfigs[active as AIProvider]) active = 'gemini';
-        return { activeProvider: active, configs: safeConfigs };
+        const fallbackProviders = Array.isArray(parsed.fallbackProviders)
+            ? parsed.fallbackProviders.filter((p: any) => safeConfigs[p as AIProvider] && p !== 'offline')
+            : undefined;
+        return { activeProvider: active, configs: safeConfigs, fallbackProviders };
     } catch (e) {
         return defaultSettings;
     }
@@ -206,17 +264,27 @@ const AppContent: React.FC = () => {
   });
 
   const [activeReminders, setActiveReminders] = useState<Reminder[]>([]);
+  const [preAlerts, setPreAlerts] = useState<PreAlert[]>([]);
   const [isManualModalOpen, setIsManualModalOpen] = useState(false);
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
   const [settingsInitialTab, setSettingsInitialTab] = useState<string>('family');
   const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermissionState>(getNotificationPermission);
+  // Set when the app is opened from a notification, resolved once reminders are at hand
+  const [alarmLink, setAlarmLink] = useState<AlarmLink | null>(() => parseAlarmLink(window.location.search));
+  // Daily briefings shown one at a time. text is null while it's being composed, silent ones are only shown.
+  const [briefings, setBriefings] = useState<{ userId: string; text: string | null; silent: boolean }[]>([]);
+  const composingBriefingsRef = useRef(new Set<string>());
+  const lastBriefedRef = useRef<{ [userId: string]: string }>((() => {
+      try { return JSON.parse(localStorage.getItem('family_last_briefing') || '{}') || {}; } catch { return {}; }
+  })());
 
   const audioUnlockedRef = useRef(false);
   const inactivityTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const avatarRefs = useRef<{ [key: string]: HTMLButtonElement | null }>({});
   const systemTodayRef = useRef(selectedDate);
-  const latestDataRef = useRef({ users, reminders, voiceSettings, aiSettings, cloudSettings, reminderTypes });
+  const latestDataRef = useRef({ users, reminders, voiceSettings, aiSettings, cloudSettings, reminderTypes, history, medications, measurements });
 
   useEffect(() => {
     if (!users.find(u => u.id === currentUser.id)) {
@@ -224,12 +292,18 @@ const AppContent: React.FC = () => {
     }
   }, [users, currentUser]);
 
+  // Photos of deleted reminders, or picked in an edit that was cancelled, are only cleaned up once per start
   useEffect(() => {
-      latestDataRef.current = { users, reminders, voiceSettings, aiSettings, cloudSettings, reminderTypes };
-  }, [users, reminders, voiceSettings, aiSettings, cloudSettings, reminderTypes]);
+      pruneAttachments(new Set(reminders.map(r => r.photoId).filter((id): id is string => !!id)));
+  }, []);
 
   useEffect(() => {
-      const interval = setInterval(() => {
+      latestDataRef.current = { users, reminders, voiceSettings, aiSettings, cloudSettings, reminderTypes, history, medications, measurements };
+  }, [users, reminders, voiceSettings, aiSettings, cloudSettings, reminderTypes, history, medications, measurements]);
+
+  useEffect(() => {
+      let cancelTimer = () => {};
+      const rollOver = () => {
           const currentSystemDate = getTodayString();
           if (currentSystemDate !== systemTodayRef.current) {
                systemTodayRef.current = currentSystemDate;
@@ -238,20 +312,27 @@ const AppContent: React.FC = () => {
                    return prev;
                });
           }
-      }, 1000);
-      return () => clearInterval(interval);
+          cancelTimer();
+          cancelTimer = armTimer(systemClock, getNextMidnight(systemClock.now()), rollOver);
+      };
+      rollOver();
+      document.addEventListener('visibilitychange', rollOver);
+      return () => {
+          cancelTimer();
+          document.removeEventListener('visibilitychange', rollOver);
+      };
   }, []);
 
   useEffect(() => {
       const interval = setInterval(() => {
-          const { cloudSettings: cs, users: u, reminders: r, voiceSettings: vs, aiSettings: ai, reminderTypes: rt } = latestDataRef.current;
+          const { cloudSettings: cs, users: u, reminders: r, voiceSettings: vs, aiSettings: ai, reminderTypes: rt, history: h, medications: m, measurements: ms } = latestDataRef.current;
           if (cs.autoSyncEnabled && cs.apiKey && cs.binId) {
               const now = Date.now();
               const lastSync = cs.lastAutoSync || 0;
               const intervalMs = cs.autoSyncInterval * 60 * 1000;
               
               if (now - lastSync > intervalMs) {
-                  const data = { users: u, reminders: r, voiceSettings: vs, aiSettings: ai, reminderTypes: rt, version: "1.1", lastUpdated: new Date().toISOString() };
+                  const data = { users: u, reminders: r, voiceSettings: vs, aiSettings: ai, reminderTypes: rt, history: h, medications: m, measurements: ms, version: "1.1", lastUpdated: new Date().toISOString() };
                   updateCloudBackup(cs.apiKey, cs.binId, data).then(() => {
                       setCloudSettings({ ...cs, lastAutoSync: now });
                   }).catch(err => console.error("Auto Sync Failed", err));
@@ -264,15 +345,31 @@ const AppContent: React.FC = () => {
   useEffect(() => {
     localStorage.setItem('family_users', JSON.stringify(users));
     localStorage.setItem('family_auto_backup', JSON.stringify({
-        users, reminders, voiceSettings, aiSettings, reminderTypes, backupTime: new Date().toISOString()
+        users, reminders, voiceSettings, aiSettings, reminderTypes, history, medications, measurements, backupTime: new Date().toISOString()
     }));
-  }, [users, reminders, voiceSettings, aiSettings, reminderTypes]);
+  }, [users, reminders, voiceSettings, aiSettings, reminderTypes, history, medications, measurements]);
 
   useEffect(() => { localStorage.setItem('family_reminders', JSON.stringify(reminders)); }, [reminders]);
   useEffect(() => { localStorage.setItem('family_voice_settings', JSON.stringify(voiceSettings)); }, [voiceSettings]);
   useEffect(() => { localStorage.setItem('family_ai_settings', JSON.stringify(aiSettings)); }, [aiSettings]);
   useEffect(() => { localStorage.setItem('family_cloud_settings', JSON.stringify(cloudSettings)); }, [cloudSettings]);
   useEffect(() => { localStorage.setItem('family_reminder_types', JSON.stringify(reminderTypes)); }, [reminderTypes]);
+  useEffect(() => { localStorage.setItem('family_history', JSON.stringify(history)); }, [history]);
+  useEffect(() => { localStorage.setItem('family_medications', JSON.stringify(medications)); }, [medications]);
+  useEffect(() => { localStorage.setItem('family_measurements', JSON.stringify(measurements)); }, [measurements]);
+  useEffect(() => { localStorage.setItem('family_dnd', String(householdDnd)); }, [householdDnd]);
+  useEffect(() => {
+      if (customHolidays) localStorage.setItem('family_holiday_calendar', JSON.stringify(customHolidays));
+      else localStorage.removeItem('family_holiday_calendar');
+  }, [customHolidays]);
+
+  // The active calendar is module state read during render, so it's swapped before the re-render
+  const handleSetCustomHolidays = (calendar: HolidayCalendar | null) => {
+      setHolidayCalendar(calendar);
+      setCustomHolidays(calendar);
+  };
+
+  const logEvents = (events: HistoryEvent[]) => setHistory(prev => appendHistory(prev, events));
 
   const resetInactivityTimer = () => {
     if (inactivityTimerRef.current) clearTimeout(inactivityTimerRef.current);
@@ -294,88 +391,148 @@ const AppContent: React.FC = () => {
     };
   }, [viewMode]);
 
+  const schedulerContext: SchedulerContext = {
+    getGraceMinutes: r => reminderTypes.find(t => t.id === r.type)?.graceMinutes ?? DEFAULT_GRACE_MINUTES,
+    getTimeZone: r => users.find(u => u.id === r.userId)?.timeZone,
+    getLeadTimes: r => getLeadTimes(r, reminderTypes.find(t => t.id === r.type)),
+    getDeferral: (r, at) => getQuietDeferral(users.find(u => u.id === r.userId), reminderTypes.find(t => t.id === r.type), at)
+  };
+
+  const getReminderVolume = (r: Reminder, at: number) => {
+    return getAlarmVolume(users.find(u => u.id === r.userId), reminderTypes.find(t => t.id === r.type), householdDnd, at);
+  };
+
   useEffect(() => {
-    const checkAlarms = () => {
-      const now = new Date();
-      const currentTime = now.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
-      const currentFullDate = getTodayString();
-      
-      const toTrigger = reminders.filter(r => {
-        if (r.isCompleted) return false;
-        if (r.date !== currentFullDate) return false;
-        
-        if (r.snoozeUntil) {
-             if (now.getTime() < r.snoozeUntil) return false;
-        } else {
-             if (r.time !== currentTime) return false;
+    // Arms one timer for the next due instant instead of polling. Any state change re-runs this effect,
+    // and waking from sleep re-checks straight away since throttled timers may fire late.
+    let cancelTimer = () => {};
+    const run = () => {
+      cancelTimer();
+      const now = systemClock.now();
+      const due = collectDueAlarms(reminders, now, schedulerContext);
+
+      if (due.toFire.length > 0 || Object.keys(due.missed).length > 0 || due.preAlerts.length > 0) {
+        setReminders(applyDueAlarms(reminders, due, now, uuidv4, schedulerContext));
+        logEvents([
+            ...due.toFire.map(r => createHistoryEvent('fired', r, now, uuidv4())),
+            ...Object.entries(due.missed).flatMap(([id, times]) => {
+                const r = reminders.find(x => x.id === id)!;
+                return times.map(t => createHistoryEvent('missed', r, now, uuidv4(), { time: t }));
+            })
+        ]);
+        // A slot that is ringing for real no longer needs its heads-up
+        setPreAlerts(prev => [...prev, ...due.preAlerts].filter(p => !due.toFire.some(f => slotKey(f) === slotKey(p.reminder))));
+        if (due.toFire.length > 0) {
+          setActiveReminders(prev => {
+              const existingKeys = prev.map(slotKey);
+              const uniqueToAdd = due.toFire.filter(t => !existingKeys.includes(slotKey(t)));
+              return [...prev, ...uniqueToAdd];
+          });
         }
-
-        const lastReminded = r.lastRemindedAt || 0;
-        return (Date.now() - lastReminded) > 60000;
-      });
-
-      if (toTrigger.length > 0) {
-        const nowTs = Date.now();
-        const updatedReminders = reminders.map(r => 
-           toTrigger.find(tr => tr.id === r.id) 
-           ? { ...r, lastRemindedAt: nowTs, snoozeUntil: undefined } 
-           : r
-        );
-        setReminders(updatedReminders);
-        
-        setActiveReminders(prev => {
-            const newIds = toTrigger.map(t => t.id);
-            const existingIds = prev.map(p => p.id);
-            const uniqueToAdd = toTrigger.filter(t => !existingIds.includes(t.id));
-            return [...prev, ...uniqueToAdd];
-        });
+        return;
       }
+
+      const nextWakeUp = getNextWakeUp(reminders, now, schedulerContext);
+      if (nextWakeUp !== null) cancelTimer = armTimer(systemClock, nextWakeUp, run);
     };
 
-    const interval = setInterval(checkAlarms, 1000);
+    const handleVisibility = () => { if (document.visibilityState === 'visible') run(); };
+
+    run();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      cancelTimer();
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [reminders, reminderTypes, users]);
+
+  useEffect(() => {
+    registerServiceWorker();
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'open-alarm') setAlarmLink({ reminderId: event.data.reminderId, time: event.data.time || undefined });
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  // The service worker only knows what it was last sent, so the schedule is re-sent on every change
+  useEffect(() => {
+    if (notificationPermission !== 'granted') return;
+    const now = systemClock.now();
+    const upcoming = getUpcomingAlarms(reminders, now, now + NOTIFICATION_HORIZON_MS, schedulerContext);
+    syncNotificationSchedule(buildNotificationSchedule(upcoming, users, getReminderVolume));
+  }, [reminders, reminderTypes, users, householdDnd, notificationPermission]);
+
+  // Briefings are checked every minute and held back while an alarm is showing. Quiet hours show them without speaking.
+  useEffect(() => {
+    if (activeReminders.length > 0) return;
+    const check = () => {
+        const now = systemClock.now();
+        const due = getDueBriefings(users, now, lastBriefedRef.current);
+        if (due.length === 0) return;
+        due.forEach(({ user, date }) => { lastBriefedRef.current[user.id] = date; });
+        localStorage.setItem('family_last_briefing', JSON.stringify(lastBriefedRef.current));
+        due.forEach(({ user }) => startBriefing(user, householdDnd || isInQuietHours(user.quietHours, now, user.timeZone)));
+    };
+    check();
+    const interval = setInterval(check, 60000);
     return () => clearInterval(interval);
-  }, [reminders]);
+  }, [users, activeReminders.length, householdDnd]);
 
-  const handleNextOccurrence = (reminder: Reminder): Reminder | null => {
-      if (!reminder.recurrence || reminder.recurrence === 'once') return null;
+  // The briefing at the front is read out once its text is ready
+  const currentBriefing = briefings[0];
+  useEffect(() => {
+    if (!currentBriefing?.text || currentBriefing.silent) return;
+    speakAloud(currentBriefing.text, voiceSettings, aiSettings);
+  }, [currentBriefing?.userId, currentBriefing?.text]);
 
-      const current = new Date(reminder.date + 'T' + reminder.time);
-      let next = new Date(current);
-      
-      switch (reminder.recurrence) {
-          case 'daily': next.setDate(next.getDate() + 1); break;
-          case 'weekly': next.setDate(next.getDate() + 7); break;
-          case 'monthly': next.setMonth(next.getMonth() + 1); break;
-          case 'yearly': next.setFullYear(next.getFullYear() + 1); break;
-      }
-      const y = next.getFullYear();
-      const m = String(next.getMonth() + 1).padStart(2, '0');
-      const d = String(next.getDate()).padStart(2, '0');
-      
-      return {
-          ...reminder,
-          id: uuidv4(),
-          date: `${y}-${m}-${d}`,
-          isCompleted: false,
-          lastRemindedAt: undefined,
-          snoozeUntil: undefined
-      };
+  // A tapped notification opens its alarm even if the slot already rang or was snoozed
+  useEffect(() => {
+    if (!alarmLink) return;
+    const reminder = reminders.find(r => r.id === alarmLink.reminderId);
+    const time = alarmLink.time || reminder?.time;
+    if (reminder && time && !reminder.isCompleted && !isSlotResolved(reminder, time)) {
+        const alarm = { ...reminder, time };
+        setActiveReminders(prev => prev.some(p => slotKey(p) === slotKey(alarm)) ? prev : [...prev, alarm]);
+    }
+    setAlarmLink(null);
+    if (window.location.search) window.history.replaceState(null, '', window.location.pathname);
+  }, [alarmLink, reminders]);
+
+  const handleRequestNotificationPermission = async () => {
+    setNotificationPermission(await requestNotificationPermission());
   };
 
-  const toggleComplete = (id: string) => {
+  const toggleComplete = (id: string, time?: string) => {
     const reminder = reminders.find(r => r.id === id);
     if (!reminder) return;
+
+    const slots = getReminderTimes(reminder);
+    const isSlotToggle = slots.length > 1 && !!time;
+    const now = systemClock.now();
     
     // Logic: Allow unchecking (reverting to incomplete)
-    if (reminder.isCompleted) {
-         setReminders(reminders.map(r => r.id === id ? { ...r, isCompleted: false } : r));
+    if (isSlotToggle ? isSlotCompleted(reminder, time!) : reminder.isCompleted) {
+         const reopened = isSlotToggle ? [time!] : slots.filter(t => !reminder.skippedTimes?.includes(t));
+         logEvents(reopened.map(t => createHistoryEvent('reopened', reminder, now, uuidv4(), { time: t })));
+         setReminders(applyIntakes(reminder, -reopened.length, reminders.map(r => r.id === id ? {
+             ...r,
+             isCompleted: false,
+             completedTimes: isSlotToggle ? (r.completedTimes || []).filter(t => t !== time) : []
+         } : r)));
          return;
     }
 
+    const completedTimes = isSlotToggle ? [...(reminder.completedTimes || []), time!] : slots;
+    const newlyCompleted = completedTimes.filter(t => !isSlotResolved(reminder, t));
+    logEvents(newlyCompleted
+        .map(t => createHistoryEvent('completed', reminder, now, uuidv4(), { time: t, late: reminder.missedTimes?.includes(t) || undefined })));
+    const remaining = activeReminders.filter(r => r.id !== id || (isSlotToggle && r.time !== time));
+
     // Safety check for TTS
     if (typeof window !== 'undefined' && window.speechSynthesis && 'speechSynthesis' in window) {
              window.speechSynthesis.cancel();
-             const remaining = activeReminders.filter(r => r.id !== id);
              if (remaining.length === 0) {
                  const msg = new SpeechSynthesisUtterance("太棒了，所有任务都完成了。");
                  msg.lang = 'zh-CN';
@@ -383,42 +540,114 @@ const AppContent: React.FC = () => {
              }
     }
 
-    let newReminders = reminders.map(r => r.id === id ? { ...r, isCompleted: true } : r);
-    
-    if (reminder.recurrence && reminder.recurrence !== 'once') {
-        const nextInstance = handleNextOccurrence(reminder);
-        if (nextInstance) newReminders.push(nextInstance);
+    setReminders(applyIntakes(reminder, newlyCompleted.length, closeSlots(reminders, reminder, completedTimes, reminder.skippedTimes || [], uuidv4)));
+    setActiveReminders(remaining);
+
+    // Measurement types ask for the reading once the reminder is done, skipping it leaves the completion as is
+    const kind = reminderTypes.find(t => t.id === reminder.type)?.measurement;
+    if (kind && newlyCompleted.length > 0) {
+        setPendingMeasurement({ userId: reminder.userId, kind, reminderId: reminder.id, time: newlyCompleted[newlyCompleted.length - 1] });
     }
-    
-    setReminders(newReminders);
-    setActiveReminders(activeReminders.filter(r => r.id !== id));
   };
 
-  const handleSnooze = (id: string | null, durationMinutes: number) => {
-    const snoozeTime = Date.now() + durationMinutes * 60 * 1000;
+  const handleSaveMeasurement = (data: Omit<Measurement, 'id' | 'at'>) => {
+    setMeasurements([...measurements, { ...data, id: uuidv4(), at: systemClock.now() }]);
+    setPendingMeasurement(null);
+  };
+
+  // Taken doses come out of the linked stock and reopened ones go back. Adds a "买药" reminder for the caregiver
+  // when the supply drops below the threshold, and returns the reminders to store.
+  const applyIntakes = (reminder: Reminder, intakes: number, nextReminders: Reminder[]): Reminder[] => {
+    const medication = medications.find(m => m.id === reminder.medicationId);
+    if (!medication || intakes === 0) return nextReminders;
+
+    let updated = adjustStock(medication, intakes);
+    let result = nextReminders;
+    if (intakes > 0 && needsRefillReminder(updated, nextReminders)) {
+        const refill = createRefillReminder(updated, users.find(u => u.id === updated.userId), new Date(systemClock.now()), uuidv4());
+        updated = { ...updated, refillReminderId: refill.id };
+        result = [...nextReminders, refill];
+    }
+    setMedications(medications.map(m => m.id === updated.id ? updated : m));
+    return result;
+  };
+
+  const handleResolveMissed = (id: string, time: string, action: 'late' | 'skip') => {
+    const reminder = reminders.find(r => r.id === id);
+    if (!reminder) return;
+    if (action === 'late') {
+        toggleComplete(id, time);
+        return;
+    }
+    logEvents([createHistoryEvent('skipped', reminder, systemClock.now(), uuidv4(), { time })]);
+    setReminders(closeSlots(reminders, reminder, reminder.completedTimes || [], [...(reminder.skippedTimes || []), time], uuidv4));
+  };
+
+  const handleSnooze = (id: string | null, durationMinutes: number, time?: string) => {
+    const now = systemClock.now();
+    const snoozeTime = now + durationMinutes * 60 * 1000;
+    const targets = id ? activeReminders.filter(r => r.id === id && (!time || r.time === time)) : activeReminders;
+    logEvents(targets.map(r => createHistoryEvent('snoozed', r, now, uuidv4(), { snoozeMinutes: durationMinutes })));
     
     if (id) {
-        setReminders(reminders.map(r => 
-            r.id === id ? { ...r, snoozeUntil: snoozeTime } : r
-        ));
-        setActiveReminders(activeReminders.filter(r => r.id !== id));
+        setReminders(snoozeReminders(reminders, [{ id, time }], snoozeTime));
+        setActiveReminders(activeReminders.filter(r => r.id !== id || (!!time && r.time !== time)));
     } else {
-        const activeIds = activeReminders.map(r => r.id);
-        setReminders(reminders.map(r => 
-            activeIds.includes(r.id) ? { ...r, snoozeUntil: snoozeTime } : r
-        ));
+        setReminders(snoozeReminders(reminders, activeReminders, snoozeTime));
         setActiveReminders([]);
     }
   };
 
-  const handleAddReminder = (data: Omit<Reminder, 'id'>) => {
-    const newReminder = { ...data, id: uuidv4(), isCompleted: false };
-    setReminders([...reminders, newReminder]);
+  // Nobody answered the alarm. Types with an escalation policy hand the reminder to the caregiver.
+  const handleAutoSnooze = (durationMinutes: number) => {
+    const now = systemClock.now();
+    const result = autoSnoozeReminders(
+        reminders,
+        activeReminders,
+        now + durationMinutes * 60 * 1000,
+        now,
+        r => reminderTypes.find(t => t.id === r.type)?.escalation
+    );
+    setReminders(result.reminders);
+    logEvents([
+        ...activeReminders.map(r => createHistoryEvent('snoozed', r, now, uuidv4(), { snoozeMinutes: durationMinutes, auto: true })),
+        ...result.escalated.map(r => createHistoryEvent('escalated', r, now, uuidv4(), {
+            time: r.escalatedTime || r.time,
+            caregiverId: r.escalatedTo,
+            autoSnoozes: r.autoSnoozeCount
+        }))
+    ]);
+    setActiveReminders([]);
+  };
+
+  const handleAcknowledgeEscalation = (id: string) => {
+    setReminders(reminders.map(r => r.id === id ? { ...r, escalationAcknowledged: true } : r));
   };
 
-  const handleEditReminder = (data: Omit<Reminder, 'id'>) => {
+  // Stores the stock edited alongside a reminder and returns the id to link it by
+  const saveMedication = (draft: MedicationDraft): string => {
+    const existing = medications.find(m => m.id === draft.id);
+    if (!existing) {
+        const created: Medication = { ...draft, id: uuidv4() };
+        setMedications([...medications, created]);
+        return created.id;
+    }
+    // A restock allows a fresh refill reminder once the supply runs low again
+    const refillReminderId = draft.stock > existing.stock ? undefined : existing.refillReminderId;
+    setMedications(medications.map(m => m.id === existing.id ? { ...existing, ...draft, id: existing.id, refillReminderId } : m));
+    return existing.id;
+  };
+
+  const handleAddReminder = (data: Omit<Reminder, 'id'>, medication?: MedicationDraft) => {
+    const newReminder = { ...data, id: uuidv4(), isCompleted: false, medicationId: medication ? saveMedication(medication) : data.medicationId };
+    // Functional, the assistant adds several reminders in one go
+    setReminders(prev => [...prev, newReminder]);
+  };
+
+  const handleEditReminder = (data: Omit<Reminder, 'id'>, medication?: MedicationDraft) => {
       if (editingReminder) {
-          setReminders(reminders.map(r => r.id === editingReminder.id ? { ...data, id: editingReminder.id } : r));
+          const medicationId = medication ? saveMedication(medication) : undefined;
+          setReminders(reminders.map(r => r.id === editingReminder.id ? applyReminderEdit(r, { ...data, medicationId }) : r));
           setEditingReminder(null);
       }
   };
@@ -430,6 +659,34 @@ const AppContent: React.FC = () => {
       }
   };
 
+  // Changes confirmed in the assistant. The card may be tapped a while after the answer, so these work on the latest list.
+  const handleAssistantUpdate = (id: string, patch: Partial<Reminder>) => {
+      setReminders(prev => prev.map(r => r.id === id ? applyReminderEdit(r, { ...r, ...patch }) : r));
+  };
+
+  const handleAssistantDelete = (ids: string[]) => {
+      setReminders(prev => prev.filter(r => !ids.includes(r.id)));
+  };
+
+  // Called from the minute check as well, so the queue is read through the updater and the ref, never the closure
+  const startBriefing = async (user: User, silent: boolean) => {
+      if (composingBriefingsRef.current.has(user.id)) return;
+      composingBriefingsRef.current.add(user.id);
+      setBriefings(prev => prev.some(b => b.userId === user.id) ? prev : [...prev, { userId: user.id, text: null, silent }]);
+      try {
+          const { reminders: r, voiceSettings: vs, aiSettings: ai } = latestDataRef.current;
+          const text = await composeBriefing(user, r, systemClock.now(), vs.briefingTemplate, vs.briefingUseAI ? ai : null);
+          setBriefings(prev => prev.map(b => b.userId === user.id ? { ...b, text } : b));
+      } finally {
+          composingBriefingsRef.current.delete(user.id);
+      }
+  };
+
+  const closeBriefing = () => {
+      if (window.speechSynthesis) window.speechSynthesis.cancel();
+      setBriefings(prev => prev.slice(1));
+  };
+
   const switchUser = (user: User) => {
     setCurrentUser(user);
     setViewMode('user');
@@ -453,6 +710,17 @@ const AppContent: React.FC = () => {
         return a.isCompleted ? 1 : -1;
     });
 
+  const missedSlots = reminders
+    .filter(r => r.missedTimes && r.missedTimes.length > 0)
+    .filter(r => viewMode === 'home' ? true : r.userId === currentUser.id)
+    .flatMap(r => r.missedTimes!.map(time => ({ reminder: r, time })))
+    .sort((a, b) => `${a.reminder.date} ${a.time}`.localeCompare(`${b.reminder.date} ${b.time}`));
+
+  // Escalations show on the family view and on the caregiver's own page
+  const escalations = reminders
+    .filter(r => r.escalatedAt && !r.escalationAcknowledged && !isSlotResolved(r, r.escalatedTime || r.time))
+    .filter(r => viewMode !== 'user' || !r.escalatedTo || r.escalatedTo === currentUser.id);
+
   const changeDate = (offset: number) => {
       const d = new Date(selectedDate);
       d.setDate(d.getDate() + offset);
@@ -595,12 +863,68 @@ const AppContent: React.FC = () => {
                       >
                           <i className="fa-regular fa-calendar landscape:text-[10px]"></i>
                       </button>
+
+                      <button 
+                         onClick={() => setViewMode(viewMode === 'report' ? 'home' : 'report')}
+                         className={`w-8 h-8 landscape:w-6 landscape:h-6 flex items-center justify-center rounded-lg border transition-colors ${viewMode === 'report' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                      >
+                          <i className="fa-solid fa-chart-column landscape:text-[10px]"></i>
+                      </button>
+
+                      <button 
+                         onClick={() => setViewMode(viewMode === 'health' ? 'home' : 'health')}
+                         title="健康记录"
+                         className={`w-8 h-8 landscape:w-6 landscape:h-6 flex items-center justify-center rounded-lg border transition-colors ${viewMode === 'health' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                      >
+                          <i className="fa-solid fa-heart-pulse landscape:text-[10px]"></i>
+                      </button>
+
+                      {viewMode === 'user' && (
+                          <button 
+                             onClick={() => startBriefing(users.find(u => u.id === currentUser.id) || currentUser, false)}
+                             title="今日简报"
+                             className="h-8 landscape:h-6 px-2 flex items-center gap-1 rounded-lg border bg-white text-slate-500 border-slate-200 hover:bg-slate-50 text-xs font-bold"
+                          >
+                              <i className="fa-solid fa-bullhorn landscape:text-[10px]"></i>
+                              <span className="landscape:hidden">今日简报</span>
+                          </button>
+                      )}
+
+                      <button 
+                         onClick={() => setHouseholdDnd(!householdDnd)}
+                         title={householdDnd ? '关闭全家勿扰' : '开启全家勿扰'}
+                         className={`w-8 h-8 landscape:w-6 landscape:h-6 flex items-center justify-center rounded-lg border transition-colors ${householdDnd ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                      >
+                          <i className="fa-solid fa-moon landscape:text-[10px]"></i>
+                      </button>
                   </div>
               </div>
           </header>
 
           <div className="flex-1 overflow-y-auto px-6 landscape:px-4 pb-24 landscape:pb-14 pt-0 scrollbar-hide min-h-0">
-              
+              {escalations.length > 0 && (
+                  <div className="max-w-2xl landscape:max-w-4xl mb-3 landscape:mb-2 space-y-2">
+                      {escalations.map(r => {
+                          const member = users.find(u => u.id === r.userId);
+                          const caregiver = users.find(u => u.id === r.escalatedTo);
+                          return (
+                              <div key={r.id} className="bg-rose-600 text-white rounded-2xl landscape:rounded-xl p-3 landscape:p-2 shadow-lg flex items-center gap-3">
+                                  <i className="fa-solid fa-user-nurse text-2xl landscape:text-lg"></i>
+                                  <div className="flex-1 min-w-0">
+                                      <div className="text-[10px] font-bold opacity-80">{caregiver ? `${caregiver.name}请注意` : '请家人注意'}</div>
+                                      <div className="font-bold text-sm truncate">
+                                          {member?.avatar} {member?.name || '未知'} · {r.escalatedTime || r.time} {r.title}
+                                      </div>
+                                      <div className="text-[10px] opacity-80">连续{r.autoSnoozeCount || 0}次无人响应</div>
+                                  </div>
+                                  <button onClick={() => toggleComplete(r.id, r.escalatedTime)} className="px-2 py-1 rounded-lg bg-white text-rose-600 text-xs font-bold">已处理</button>
+                                  <button onClick={() => handleAcknowledgeEscalation(r.id)} className="px-2 py-1 rounded-lg bg-rose-500 text-white text-xs font-bold">知道了</button>
+                              </div>
+                          );
+                      })}
+                  </div>
+              )}
+
               {viewMode === 'calendar' ? (
                   <CalendarView 
                     currentDate={new Date(selectedDate)}
@@ -609,8 +933,47 @@ const AppContent: React.FC = () => {
                     onSelectDate={(d) => { setSelectedDate(d); setViewMode('home'); }}
                     onClose={() => setViewMode('home')}
                   />
+              ) : viewMode === 'report' ? (
+                  <ReportView
+                    history={history}
+                    users={users}
+                    reminderTypes={reminderTypes}
+                    onClose={() => setViewMode('home')}
+                  />
+              ) : viewMode === 'health' ? (
+                  <MeasurementView
+                    measurements={measurements}
+                    users={users}
+                    initialUserId={currentUser.id}
+                    onAdd={(userId, kind) => setPendingMeasurement({ userId, kind })}
+                    onDelete={(id) => setMeasurements(measurements.filter(m => m.id !== id))}
+                    onClose={() => setViewMode('home')}
+                  />
               ) : (
                 <div className="space-y-3 landscape:space-y-2 max-w-2xl landscape:max-w-4xl">
+                    {missedSlots.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-2xl landscape:rounded-xl p-3 landscape:p-2 space-y-2">
+                            <h2 className="text-sm font-bold text-amber-700 flex items-center gap-2">
+                                <i className="fa-solid fa-triangle-exclamation"></i> 错过的提醒 ({missedSlots.length})
+                            </h2>
+                            {missedSlots.map(({ reminder, time }) => {
+                                const mUser = users.find(u => u.id === reminder.userId);
+                                return (
+                                    <div key={`${reminder.id}@${time}`} className="bg-white rounded-xl px-3 py-2 flex items-center gap-2 shadow-sm">
+                                        <span className="text-lg">{mUser?.avatar || '👤'}</span>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-bold text-sm text-slate-800 truncate">{reminder.title}</div>
+                                            <div className="text-[10px] text-slate-400 font-mono">
+                                                {reminder.date === getTodayString() ? '今天' : reminder.date} {time} · {mUser?.name || '未知'}
+                                            </div>
+                                        </div>
+                                        <button onClick={() => handleResolveMissed(reminder.id, time, 'late')} className="px-2 py-1 rounded-lg bg-green-500 text-white text-xs font-bold">补做</button>
+                                        <button onClick={() => handleResolveMissed(reminder.id, time, 'skip')} className="px-2 py-1 rounded-lg bg-slate-100 text-slate-500 text-xs font-bold">跳过</button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
                     {filteredReminders.length === 0 ? (
                         <div className="text-center py-20 opacity-40">
                             <div className="text-6xl mb-4 landscape:hidden">🍃</div>
@@ -620,6 +983,19 @@ const AppContent: React.FC = () => {
                         filteredReminders.map(reminder => {
                             const rUser = users.find(u => u.id === reminder.userId) || currentUser;
                             const typeDef = reminderTypes.find(t => t.id === reminder.type) || DEFAULT_REMINDER_TYPES[2];
+                            const slots = getReminderTimes(reminder);
+                            const progress = getSeriesProgress(reminder);
+                            const leadTimes = getLeadTimes(reminder, typeDef);
+                            const medication = medications.find(m => m.id === reminder.medicationId);
+                            const details = describeFields(reminder, typeDef);
+                            // Members abroad: the reminder's time is theirs, also show when it rings here
+                            const memberZone = isForeignTimeZone(rUser.timeZone) ? rUser.timeZone : undefined;
+                            const localTimes = memberZone ? slots.map(t => {
+                                const due = getSlotDueTime(reminder, t, memberZone);
+                                const localDate = formatDateInZone(due);
+                                const shift = localDate > reminder.date ? ' +1天' : localDate < reminder.date ? ' -1天' : '';
+                                return `${formatTimeInZone(due)}${shift}`;
+                            }) : [];
 
                             return (
                                 <div 
@@ -642,25 +1018,77 @@ const AppContent: React.FC = () => {
 
                                     <div className="flex-1 min-w-0">
                                         <div className="flex items-center gap-2 mb-0.5">
-                                            <span className="font-mono font-bold text-xl landscape:text-base text-slate-700">{reminder.time}</span>
+                                            {slots.length > 1 ? (
+                                                <div className="flex gap-1 flex-wrap">
+                                                    {slots.map(t => {
+                                                        const done = isSlotCompleted(reminder, t);
+                                                        return (
+                                                            <button
+                                                                key={t}
+                                                                type="button"
+                                                                onClick={() => toggleComplete(reminder.id, t)}
+                                                                className={`font-mono font-bold text-sm landscape:text-xs px-1.5 py-0.5 rounded-lg border ${done ? 'bg-green-50 border-green-200 text-green-600 line-through' : 'bg-white border-slate-200 text-slate-700 hover:border-blue-400'}`}
+                                                            >
+                                                                {done && <i className="fa-solid fa-check mr-1 text-[10px]"></i>}{t}
+                                                            </button>
+                                                        );
+                                                    })}
+                                                </div>
+                                            ) : (
+                                                <span className="font-mono font-bold text-xl landscape:text-base text-slate-700">{reminder.time}</span>
+                                            )}
                                             {viewMode === 'home' && (
                                                 <div className="flex items-center gap-1 bg-slate-100 px-2 py-0.5 rounded-full">
                                                     <span className="text-xs">{rUser.avatar}</span>
                                                     <span className="text-[10px] font-bold text-slate-600 truncate max-w-[60px]">{rUser.name}</span>
                                                 </div>
                                             )}
-                                            {reminder.recurrence && reminder.recurrence !== 'once' && (
+                                            {isRecurring(reminder) && (
                                                 <span className="text-[10px] text-purple-600 bg-purple-50 px-1.5 rounded font-bold">
                                                     <i className="fa-solid fa-repeat mr-1"></i>
-                                                    {{'daily':'每天', 'weekly':'每周', 'monthly':'每月', 'yearly':'每年'}[reminder.recurrence]}
+                                                    {describeRecurrence(reminder)}
+                                                </span>
+                                            )}
+                                            {progress && (
+                                                <span className="text-[10px] text-indigo-600 bg-indigo-50 px-1.5 rounded font-bold">
+                                                    第{progress.current}/{progress.total}次
+                                                </span>
+                                            )}
+                                            {leadTimes.length > 0 && !reminder.isCompleted && (
+                                                <span className="text-[10px] text-amber-600 bg-amber-50 px-1.5 rounded font-bold">
+                                                    <i className="fa-solid fa-bell mr-1"></i>
+                                                    提前{leadTimes.map(describeLeadTime).join('、')}
+                                                </span>
+                                            )}
+                                            {medication && (
+                                                <span className={`text-[10px] px-1.5 rounded font-bold ${isRunningLow(medication, reminders) ? 'text-red-600 bg-red-50' : 'text-teal-600 bg-teal-50'}`}>
+                                                    <i className="fa-solid fa-pills mr-1"></i>
+                                                    {describeStock(medication, reminders)}
                                                 </span>
                                             )}
+                                            {reminder.missedTimes && reminder.missedTimes.length > 0 && (
+                                                <span className="text-[10px] text-amber-700 bg-amber-50 px-1.5 rounded font-bold">已错过</span>
+                                            )}
+                                            {reminder.skippedTimes && reminder.skippedTimes.length > 0 && (
+                                                <span className="text-[10px] text-slate-500 bg-slate-100 px-1.5 rounded font-bold">已跳过</span>
+                                            )}
                                         </div>
+                                        {memberZone && (
+                                            <div className="text-[10px] text-slate-400 font-bold mb-0.5">
+                                                <i className="fa-solid fa-earth-americas mr-1"></i>
+                                                {getTimeZoneLabel(memberZone)}时间 · 本地 {localTimes.join(' / ')}
+                                            </div>
+                                        )}
                                         <h3 className={`font-bold text-lg landscape:text-sm text-slate-800 truncate ${reminder.isCompleted ? 'line-through decoration-2 decoration-slate-400 text-slate-500' : ''}`}>
                                             {reminder.title}
                                         </h3>
+                                        {details && <div className="text-xs landscape:text-[10px] text-slate-500 truncate">{details}</div>}
                                     </div>
 
+                                    {reminder.photoId && (
+                                        <AttachmentPhoto photoId={reminder.photoId} className="w-12 h-12 landscape:w-8 landscape:h-8 rounded-xl object-cover border border-slate-200 flex-shrink-0" />
+                                    )}
+
                                     <div className={`w-10 h-10 landscape:w-7 landscape:h-7 rounded-xl ${typeDef.color} bg-opacity-10 flex items-center justify-center text-${typeDef.color.replace('bg-', '')}-600`}>
                                         <i className={`fa-solid fa-${typeDef.icon} text-lg landscape:text-xs`}></i>
                                     </div>
@@ -692,7 +1120,13 @@ const AppContent: React.FC = () => {
           <VoiceInput 
             currentUser={currentUser} 
             users={users}
+            medications={medications}
+            reminders={reminders}
+            reminderTypes={reminderTypes}
             onAddReminder={handleAddReminder}
+            onUpdateReminder={handleAssistantUpdate}
+            onDeleteReminders={handleAssistantDelete}
+            onCompleteReminder={toggleComplete}
             onManualInput={() => { setEditingReminder(null); setIsManualModalOpen(true); }}
             voiceSettings={voiceSettings}
             aiSettings={aiSettings}
@@ -700,11 +1134,26 @@ const AppContent: React.FC = () => {
 
       </main>
 
+      {currentBriefing && users.some(u => u.id === currentBriefing.userId) && (
+        <BriefingCard
+          user={users.find(u => u.id === currentBriefing.userId)!}
+          text={currentBriefing.text}
+          queued={briefings.length - 1}
+          onReplay={() => currentBriefing.text && speakAloud(currentBriefing.text, voiceSettings, aiSettings)}
+          onClose={closeBriefing}
+        />
+      )}
+
       <AlarmOverlay 
         reminders={activeReminders}
+        preAlerts={preAlerts}
         users={users}
+        reminderTypes={reminderTypes}
         onComplete={toggleComplete}
         onSnooze={handleSnooze}
+        onAutoSnooze={handleAutoSnooze}
+        onDismissPreAlert={(id) => setPreAlerts(prev => prev.filter(p => p.id !== id))}
+        getVolume={(r) => getReminderVolume(r, systemClock.now())}
         voiceSettings={voiceSettings}
         aiSettings={aiSettings}
       />
@@ -714,6 +1163,7 @@ const AppContent: React.FC = () => {
         onClose={() => setIsManualModalOpen(false)}
         onSave={editingReminder ? handleEditReminder : handleAddReminder}
         users={users}
+        medications={medications}
         currentUser={currentUser}
         initialData={editingReminder || undefined}
         reminderTypes={reminderTypes}
@@ -735,9 +1185,26 @@ const AppContent: React.FC = () => {
         setCloudSettings={setCloudSettings}
         reminderTypes={reminderTypes}
         setReminderTypes={setReminderTypes}
+        history={history}
+        setHistory={setHistory}
+        medications={medications}
+        setMedications={setMedications}
+        measurements={measurements}
+        setMeasurements={setMeasurements}
+        customHolidays={customHolidays}
+        setCustomHolidays={handleSetCustomHolidays}
+        notificationPermission={notificationPermission}
+        onRequestNotificationPermission={handleRequestNotificationPermission}
         initialTab={settingsInitialTab}
       />
 
+      <MeasurementInputModal
+        request={pendingMeasurement}
+        users={users}
+        onSave={handleSaveMeasurement}
+        onSkip={() => setPendingMeasurement(null)}
+      />
+
       <ConfirmModal
         isOpen={!!deleteTargetId}
         title="确认删除"
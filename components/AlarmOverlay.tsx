@@ -1,34 +1,49 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Reminder, User, VoiceSettings, AISettings } from '../types';
-import { ALARM_SOUND_DATA_URI } from '../constants';
+import { Reminder, User, VoiceSettings, AISettings, ReminderTypeDefinition } from '../types';
+import { ALARM_SOUND_DATA_URI, REDUCED_ALARM_VOLUME } from '../constants';
+import { getReminderTimes, getSlotDueTime, slotKey, describeLeadTime } from '../services/reminderSlots';
+import { PreAlert, getSlotSnooze } from '../services/scheduler';
+import { AlarmVolume, loudestVolume } from '../services/quietHours';
+import { describeFields } from '../services/customFields';
+import { speakAloud } from '../services/speech';
+import AttachmentPhoto from './AttachmentPhoto';
 
 interface AlarmOverlayProps {
   reminders: Reminder[];
+  preAlerts: PreAlert[];
   users: User[];
-  onComplete: (id: string) => void;
-  onSnooze: (id: string | null, durationMinutes: number) => void;
+  reminderTypes: ReminderTypeDefinition[];
+  onComplete: (id: string, time?: string) => void;
+  onSnooze: (id: string | null, durationMinutes: number, time?: string) => void;
+  onAutoSnooze: (durationMinutes: number) => void;
+  onDismissPreAlert: (id: string) => void;
+  getVolume: (reminder: Reminder) => AlarmVolume; // Quiet hours and do-not-disturb turn alarms down or off
   voiceSettings: VoiceSettings;
   aiSettings: AISettings;
 }
 
-const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplete, onSnooze, voiceSettings, aiSettings }) => {
+// Pre-alert notices clear themselves after this long
+const PRE_ALERT_DISPLAY_MS = 60000;
+
+const VOLUME_LEVELS: Record<AlarmVolume, number> = { normal: 1.0, reduced: REDUCED_ALARM_VOLUME, silent: 0 };
+
+const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, preAlerts, users, reminderTypes, onComplete, onSnooze, onAutoSnooze, onDismissPreAlert, getVolume, voiceSettings, aiSettings }) => {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [ticks, setTicks] = useState(0);
   const [snoozeMenuId, setSnoozeMenuId] = useState<string | null>(null);
   const [isGlobalSnoozeOpen, setIsGlobalSnoozeOpen] = useState(false);
   const [isAudioLocked, setIsAudioLocked] = useState(false);
+  const [enlargedPhotoId, setEnlargedPhotoId] = useState<string | null>(null);
+  const announcedPreAlertsRef = useRef<string[]>([]);
+  const preAlertTimersRef = useRef<{ [id: string]: ReturnType<typeof setTimeout> }>({});
+
+  const volume = loudestVolume(reminders.map(getVolume));
+  const level = VOLUME_LEVELS[volume];
 
   useEffect(() => {
     audioRef.current = new Audio(ALARM_SOUND_DATA_URI);
     audioRef.current.loop = true;
-    const playPromise = audioRef.current.play();
-    if (playPromise !== undefined) {
-        playPromise.catch(error => { 
-            console.log("Audio autoplay prevented, showing unlock button."); 
-            setIsAudioLocked(true);
-        });
-    }
     return () => {
         if (audioRef.current) {
             audioRef.current.pause();
@@ -37,6 +52,25 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
     };
   }, []);
 
+  // The beep only loops while an alarm is showing and isn't silenced
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (reminders.length === 0 || volume === 'silent') {
+        audio.pause();
+        audio.currentTime = 0;
+        return;
+    }
+    audio.volume = level;
+    const playPromise = audio.play();
+    if (playPromise !== undefined) {
+        playPromise.catch(error => { 
+            console.log("Audio autoplay prevented, showing unlock button."); 
+            setIsAudioLocked(true);
+        });
+    }
+  }, [reminders.length, volume]);
+
   const handleUnlockAudio = () => {
       // 1. Play beep to unlock AudioContext
       if (audioRef.current) {
@@ -52,105 +86,37 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
       }
   };
 
+  // The parent passes a new callback on every render, so the countdown reads it through a ref and only
+  // restarts when the set of ringing slots changes
+  const onAutoSnoozeRef = useRef(onAutoSnooze);
+  onAutoSnoozeRef.current = onAutoSnooze;
+  const ringingKey = reminders.map(slotKey).join(',');
+
   useEffect(() => {
-    const timer = setTimeout(() => { onSnooze(null, 5); }, 3 * 60 * 1000);
+    if (!ringingKey) return;
+    const timer = setTimeout(() => { onAutoSnoozeRef.current(5); }, 3 * 60 * 1000);
     return () => clearTimeout(timer);
-  }, [onSnooze]);
-
-  const speakTextOpenAI = async (text: string) => {
-      // 1. Try to get key from the 'openai' specific config first
-      let apiKey = aiSettings.configs['openai']?.apiKey;
-      let rawBaseUrl = aiSettings.configs['openai']?.baseUrl;
-
-      // 2. Fallback to Voice Settings custom URL if provided (for flexibility)
-      if (voiceSettings.ttsBaseUrl) {
-          rawBaseUrl = voiceSettings.ttsBaseUrl;
-      }
-
-      // 3. Fallback to active provider if it's generic compatible
-      if (!apiKey) {
-           apiKey = aiSettings.configs[aiSettings.activeProvider]?.apiKey;
-      }
-
-      if (!apiKey) {
-          console.warn("OpenAI TTS selected but no API Key found.");
-          return false;
-      }
-
-      // 4. Default Base URL
-      if (!rawBaseUrl) rawBaseUrl = 'https://api.openai.com/v1';
+  }, [ringingKey]);
 
-      const cleanBaseUrl = rawBaseUrl.endsWith('/') ? rawBaseUrl.slice(0, -1) : rawBaseUrl;
-      const url = `${cleanBaseUrl}/audio/speech`;
-
-      try {
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-                model: voiceSettings.model || 'tts-1',
-                input: text,
-                voice: voiceSettings.voiceURI || 'alloy',
-                speed: voiceSettings.rate // OpenAI supports speed 0.25 to 4.0
-            })
-        });
-        if (!response.ok) throw new Error("TTS Failed");
-        const blob = await response.blob();
-        const blobUrl = URL.createObjectURL(blob);
-        const audio = new Audio(blobUrl);
-        await audio.play();
-        return true;
-      } catch (e) {
-          console.error("OpenAI TTS Error:", e);
-          return false;
-      }
-  };
+  // Ducks the alarm beep while speaking. `speechLevel` scales the voice down during quiet hours.
+  const speakText = (text: string, speechLevel = 1.0) => speakAloud(text, voiceSettings, aiSettings, {
+      level: speechLevel,
+      onStart: () => { if (audioRef.current) audioRef.current.volume = 0.2 * level; },
+      onEnd: () => { if (audioRef.current) audioRef.current.volume = level; }
+  });
 
   useEffect(() => {
-    const speak = async () => {
-      if (typeof window === 'undefined') return;
+    if (reminders.length === 0 || volume === 'silent') return;
 
+    const speak = () => {
       let combinedText = "";
       reminders.forEach(r => {
           const u = users.find(user => user.id === r.userId);
           const userName = u ? u.name : '家人';
-          combinedText += `${userName}，${r.title}。`;
+          const details = describeFields(r, reminderTypes.find(t => t.id === r.type));
+          combinedText += `${userName}，${r.title}${details ? `，${details}` : ''}。`;
       });
-      
-      if (voiceSettings.provider === 'openai') {
-          if (audioRef.current) audioRef.current.volume = 0.2;
-          const success = await speakTextOpenAI(combinedText);
-          if (success) return; 
-      }
-
-      if (window.speechSynthesis && 'speechSynthesis' in window) {
-          // IMPORTANT: Do NOT call cancel() here excessively, it kills the engine on Android
-          
-          const msg = new SpeechSynthesisUtterance();
-          msg.text = combinedText;
-          msg.rate = voiceSettings.rate;
-          msg.pitch = voiceSettings.pitch;
-          msg.volume = voiceSettings.volume;
-          msg.lang = 'zh-CN';
-          
-          if (voiceSettings.voiceURI && voiceSettings.provider !== 'openai') {
-            const voices = window.speechSynthesis.getVoices();
-            const voice = voices.find(v => v.voiceURI === voiceSettings.voiceURI);
-            if (voice) msg.voice = voice;
-          }
-          
-          if (audioRef.current) audioRef.current.volume = 0.2;
-          msg.onend = () => { if (audioRef.current) audioRef.current.volume = 1.0; };
-          msg.onerror = () => { if (audioRef.current) audioRef.current.volume = 1.0; };
-          
-          // Global ref hack to prevent Garbage Collection on Chrome/Android
-          (window as any).currentUtterance = msg;
-          
-          window.speechSynthesis.speak(msg);
-      }
+      speakText(combinedText, level);
     };
 
     if (!isAudioLocked) speak();
@@ -170,11 +136,66 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
             window.speechSynthesis.cancel();
         }
     };
-  }, [reminders, users, voiceSettings, isAudioLocked]);
+  }, [reminders, users, reminderTypes, voiceSettings, isAudioLocked, volume]);
+
+  const describePreAlert = (preAlert: PreAlert) => {
+      const user = users.find(u => u.id === preAlert.reminder.userId);
+      return `${describeLeadTime(preAlert.leadMinutes)}后：${user ? user.name : '家人'}${preAlert.reminder.title}`;
+  };
+
+  // Each pre-alert is spoken once, without the alarm beep, and clears itself after a while. The timer goes
+  // with the pre-alert, so one dismissed by hand and raised again gets a fresh one.
+  useEffect(() => {
+    const ids = preAlerts.map(p => p.id);
+    Object.keys(preAlertTimersRef.current).filter(id => !ids.includes(id)).forEach(id => {
+        clearTimeout(preAlertTimersRef.current[id]);
+        delete preAlertTimersRef.current[id];
+    });
+    announcedPreAlertsRef.current = announcedPreAlertsRef.current.filter(id => ids.includes(id));
 
-  if (reminders.length === 0) return null;
+    const fresh = preAlerts.filter(p => !announcedPreAlertsRef.current.includes(p.id));
+    if (fresh.length === 0) return;
+    announcedPreAlertsRef.current = [...announcedPreAlertsRef.current, ...fresh.map(p => p.id)];
+
+    const preAlertVolume = loudestVolume(fresh.map(p => getVolume(p.reminder)));
+    if (!isAudioLocked && reminders.length === 0 && preAlertVolume !== 'silent') {
+        speakText(fresh.map(describePreAlert).join('。'), VOLUME_LEVELS[preAlertVolume]);
+    }
+    fresh.forEach(p => {
+        preAlertTimersRef.current[p.id] = setTimeout(() => {
+            delete preAlertTimersRef.current[p.id];
+            onDismissPreAlert(p.id);
+        }, PRE_ALERT_DISPLAY_MS);
+    });
+  }, [preAlerts]);
+
+  useEffect(() => {
+    const timers = preAlertTimersRef.current;
+    return () => Object.values(timers).forEach(clearTimeout);
+  }, []);
+
+  const preAlertNotice = preAlerts.length > 0 && (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[250] w-[92%] max-w-md space-y-2">
+        {preAlerts.map(p => (
+            <div key={p.id} className="bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl shadow-lg px-4 py-3 flex items-center gap-3 animate-fade-in">
+                <i className="fa-solid fa-bell text-amber-500"></i>
+                <div className="flex-1 min-w-0">
+                    <div className="font-bold text-sm truncate">{describePreAlert(p)}</div>
+                    <div className="text-[10px] text-amber-600">{p.reminder.date} {p.reminder.time}</div>
+                </div>
+                <button onClick={() => onDismissPreAlert(p.id)} className="w-8 h-8 rounded-full hover:bg-amber-100 text-amber-500 flex-shrink-0">
+                    <i className="fa-solid fa-xmark"></i>
+                </button>
+            </div>
+        ))}
+    </div>
+  );
+
+  if (reminders.length === 0) return preAlertNotice || null;
 
   return (
+    <>
+    {preAlertNotice}
     <div className="fixed inset-0 z-[300] flex items-center justify-center bg-red-600/90 backdrop-blur-sm animate-pulse-ring p-4 landscape:p-2">
       {isAudioLocked && (
           <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[310]">
@@ -192,6 +213,11 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
                 {reminders.length > 1 ? `${reminders.length} 个提醒` : '时间到'}
             </h2>
             <p className="text-xs text-slate-400 mt-1 mb-2">请确认</p>
+            {volume !== 'normal' && (
+                <p className="text-[10px] font-bold text-indigo-500 mb-2">
+                    <i className="fa-solid fa-moon mr-1"></i>{volume === 'silent' ? '勿扰中 · 静音' : '勿扰中 · 低音量'}
+                </p>
+            )}
             
             <div className="mt-2 landscape:mt-1">
                  {isGlobalSnoozeOpen ? (
@@ -215,10 +241,14 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
         <div className="flex-1 overflow-y-auto landscape:w-2/3 px-1 scrollbar-hide space-y-3 landscape:space-y-2">
             {reminders.map(reminder => {
                 const user = users.find(u => u.id === reminder.userId);
-                const isMenuOpen = snoozeMenuId === reminder.id;
+                const key = slotKey(reminder);
+                const isMenuOpen = snoozeMenuId === key;
+                const isMultiSlot = getReminderTimes(reminder).length > 1;
+                const details = describeFields(reminder, reminderTypes.find(t => t.id === reminder.type));
+                const lateMinutes = Math.floor((Date.now() - getSlotDueTime(reminder, reminder.time, user?.timeZone)) / 60000);
 
                 return (
-                    <div key={reminder.id} className="bg-slate-50 border-2 border-red-100 rounded-2xl landscape:rounded-lg p-4 landscape:p-2 flex flex-col gap-3 landscape:gap-1 shadow-sm relative">
+                    <div key={key} className="bg-slate-50 border-2 border-red-100 rounded-2xl landscape:rounded-lg p-4 landscape:p-2 flex flex-col gap-3 landscape:gap-1 shadow-sm relative">
                         <div className="flex items-center gap-3 landscape:gap-2">
                              <div className={`w-12 h-12 landscape:w-8 landscape:h-8 rounded-full flex items-center justify-center text-2xl landscape:text-sm ${user?.color || 'bg-gray-400'} text-white flex-shrink-0`}>
                                  {user?.avatar || '👤'}
@@ -227,19 +257,28 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
                                  <div className="flex justify-between items-center">
                                     <span className="font-bold text-slate-700 landscape:text-xs truncate mr-2">{user?.name || '未知'}</span>
                                     <span className="text-[10px] font-bold text-red-500 bg-red-50 px-1.5 py-0.5 rounded-full uppercase whitespace-nowrap">
-                                        待办
+                                        {isMultiSlot ? reminder.time : '待办'}
+                                        {lateMinutes >= 2 && getSlotSnooze(reminder, reminder.time) === undefined && ` · 晚了${lateMinutes}分钟`}
                                     </span>
                                  </div>
                                  <div className="text-lg landscape:text-sm font-bold text-slate-900 leading-tight mt-0.5 truncate">
                                      {reminder.title}
                                  </div>
+                                 {details && <div className="text-xs landscape:text-[10px] text-slate-500 truncate">{details}</div>}
                              </div>
+                             {reminder.photoId && (
+                                 <AttachmentPhoto
+                                     photoId={reminder.photoId}
+                                     onClick={() => setEnlargedPhotoId(reminder.photoId!)}
+                                     className="w-28 h-28 landscape:w-16 landscape:h-16 rounded-xl object-cover border-2 border-white shadow-md flex-shrink-0 cursor-zoom-in"
+                                 />
+                             )}
                         </div>
 
                         {isMenuOpen ? (
                           <div className="grid grid-cols-4 gap-1">
                              {[5, 10, 30, 60].map(min => (
-                               <button key={min} onClick={() => onSnooze(reminder.id, min)} className="py-1 rounded bg-orange-100 text-orange-700 text-xs font-bold hover:bg-orange-200">
+                               <button key={min} onClick={() => onSnooze(reminder.id, min, reminder.time)} className="py-1 rounded bg-orange-100 text-orange-700 text-xs font-bold hover:bg-orange-200">
                                  {min}m
                                </button>
                              ))}
@@ -247,10 +286,10 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
                           </div>
                         ) : (
                           <div className="flex gap-2">
-                            <button onClick={() => onComplete(reminder.id)} className="flex-1 py-3 landscape:py-1.5 bg-green-500 hover:bg-green-600 text-white rounded-xl landscape:rounded-lg text-lg landscape:text-xs font-bold shadow-md active:scale-95 flex items-center justify-center gap-2">
+                            <button onClick={() => onComplete(reminder.id, reminder.time)} className="flex-1 py-3 landscape:py-1.5 bg-green-500 hover:bg-green-600 text-white rounded-xl landscape:rounded-lg text-lg landscape:text-xs font-bold shadow-md active:scale-95 flex items-center justify-center gap-2">
                                 <i className="fa-solid fa-check-circle"></i> 完成
                             </button>
-                            <button onClick={() => setSnoozeMenuId(reminder.id)} className="w-16 landscape:w-10 bg-orange-100 text-orange-600 hover:bg-orange-200 rounded-xl landscape:rounded-lg font-bold flex flex-col items-center justify-center text-xs">
+                            <button onClick={() => setSnoozeMenuId(key)} className="w-16 landscape:w-10 bg-orange-100 text-orange-600 hover:bg-orange-200 rounded-xl landscape:rounded-lg font-bold flex flex-col items-center justify-center text-xs">
                                 <i className="fa-solid fa-clock mb-0.5 landscape:hidden"></i> 稍后
                             </button>
                           </div>
@@ -260,7 +299,14 @@ const AlarmOverlay: React.FC<AlarmOverlayProps> = ({ reminders, users, onComplet
             })}
         </div>
       </div>
+
+      {enlargedPhotoId && (
+          <div onClick={() => setEnlargedPhotoId(null)} className="absolute inset-0 z-[320] bg-black/90 flex items-center justify-center p-4 cursor-zoom-out">
+              <AttachmentPhoto photoId={enlargedPhotoId} className="max-w-full max-h-full rounded-2xl object-contain" />
+          </div>
+      )}
     </div>
+    </>
   );
 };
 
@@ -0,0 +1,34 @@
+import React, { useState, useEffect } from 'react';
+import { getAttachment } from '../services/attachments';
+
+interface AttachmentPhotoProps {
+  photoId: string;
+  className?: string;
+  onClick?: () => void;
+}
+
+// Renders a photo from IndexedDB. Nothing is shown while loading or when the photo isn't on this device,
+// e.g. after restoring a backup elsewhere.
+const AttachmentPhoto: React.FC<AttachmentPhotoProps> = ({ photoId, className, onClick }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAttachment(photoId).then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+    });
+    return () => {
+        cancelled = true;
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        setUrl(null);
+    };
+  }, [photoId]);
+
+  if (!url) return null;
+  return <img src={url} alt="" onClick={onClick} className={className} />;
+};
+
+export default AttachmentPhoto;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { User } from '../types';
+
+interface BriefingCardProps {
+  user: User;
+  text: string | null; // Null while the briefing is being put together
+  queued: number; // Members waiting after this one
+  onReplay: () => void;
+  onClose: () => void;
+}
+
+// The daily briefing as read aloud, so it can be read along or heard again
+const BriefingCard: React.FC<BriefingCardProps> = ({ user, text, queued, onReplay, onClose }) => {
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-[240] w-[92%] max-w-md animate-fade-in">
+        <div className="bg-white rounded-3xl shadow-2xl border-l-8 border-blue-500 p-4 landscape:p-3 space-y-3">
+            <div className="flex items-center gap-3">
+                <div className={`w-12 h-12 landscape:w-10 landscape:h-10 rounded-full ${user.color} flex items-center justify-center text-2xl flex-shrink-0`}>{user.avatar}</div>
+                <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold text-blue-600"><i className="fa-solid fa-bullhorn mr-1"></i>今日简报</div>
+                    <div className="text-lg font-bold text-slate-800 truncate">{user.name}</div>
+                </div>
+                <button onClick={onClose} className="w-10 h-10 rounded-full bg-slate-100 hover:bg-slate-200 text-slate-500 flex-shrink-0">
+                    <i className="fa-solid fa-xmark"></i>
+                </button>
+            </div>
+            {text === null ? (
+                <p className="text-sm text-slate-400"><i className="fa-solid fa-spinner fa-spin mr-2"></i>正在整理今天的安排...</p>
+            ) : (
+                <p className="text-xl landscape:text-base font-bold text-slate-700 leading-relaxed">{text}</p>
+            )}
+            <div className="flex gap-2">
+                <button onClick={onReplay} disabled={text === null} className="flex-1 py-2 rounded-xl bg-blue-50 text-blue-600 disabled:opacity-50 text-sm font-bold">
+                    <i className="fa-solid fa-volume-high mr-1"></i>再听一遍
+                </button>
+                <button onClick={onClose} className="flex-1 py-2 rounded-xl bg-blue-600 text-white text-sm font-bold">
+                    {queued > 0 ? `下一位（${queued}）` : '知道了'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default BriefingCard;
@@ -1,6 +1,8 @@
 
 import React, { useState } from 'react';
 import { Reminder, User } from '../types';
+import { getLunarDayLabel } from '../services/lunar';
+import { getHolidayInfo } from '../services/holidays';
 
 interface CalendarViewProps {
   currentDate: Date;
@@ -103,6 +105,9 @@ const CalendarView: React.FC<CalendarViewProps> = ({ currentDate, reminders, use
                     }
 
                     const dayReminders = getRemindersForDay(day);
+                    const dateStr = `${viewYear}-${String(viewMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+                    const lunarLabel = getLunarDayLabel(dateStr);
+                    const holiday = getHolidayInfo(dateStr);
                     // Get unique users involved in this day's reminders
                     const involvedUserIds = Array.from(new Set(dayReminders.map(r => r.userId)));
 
@@ -120,7 +125,20 @@ const CalendarView: React.FC<CalendarViewProps> = ({ currentDate, reminders, use
                                 ${isToday ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-slate-100 bg-white hover:border-blue-200 text-slate-700'}
                             `}
                         >
+                            {holiday && (
+                                <span
+                                    title={holiday.name}
+                                    className={`absolute top-0.5 right-0.5 text-[9px] landscape:text-[8px] font-bold leading-none px-0.5 py-0.5 rounded ${holiday.kind === 'holiday' ? 'bg-red-100 text-red-600' : 'bg-slate-200 text-slate-600'}`}
+                                >
+                                    {holiday.kind === 'holiday' ? '休' : '班'}
+                                </span>
+                            )}
                             <span className={`text-sm landscape:text-xs font-bold ${isToday ? 'text-blue-600' : ''}`}>{day}</span>
+                            {lunarLabel && (
+                                <span className={`text-[10px] landscape:text-[8px] leading-tight truncate max-w-full px-0.5 ${lunarLabel.highlight ? 'text-emerald-600 font-bold' : 'text-slate-400'}`}>
+                                    {lunarLabel.text}
+                                </span>
+                            )}
                             
                             {/* Dots for tasks */}
                             <div className="flex gap-1 flex-wrap justify-center mt-1 px-1">
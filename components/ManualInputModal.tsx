@@ -1,24 +1,43 @@
 
-import React, { useState, useEffect } from 'react';
-import { User, Reminder, ReminderTypeDefinition } from '../types';
-import { getTodayString } from '../constants';
+import React, { useState, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { User, Reminder, ReminderTypeDefinition, RecurrenceRule, Weekday, Medication, MedicationDraft } from '../types';
+import { getTodayString, LEAD_TIME_OPTIONS, MEDICATION_TYPE_ID, DEFAULT_REFILL_DAYS } from '../constants';
+import { WEEKDAY_ORDER, WEEKDAY_LABELS, isPresetRule, isLunarRule, getFirstOccurrenceOnOrAfter } from '../services/recurrence';
+import { isLunarSupported, toLunarDate, formatLunarMonth, formatLunarDay } from '../services/lunar';
+import { getReminderTimes, normalizeTimes, getLeadTimes, describeLeadTime } from '../services/reminderSlots';
+import { isForeignTimeZone, getTimeZoneLabel, getTodayStringInZone } from '../services/timeZone';
+import { isAttachmentStorageSupported, compressPhoto, saveAttachment } from '../services/attachments';
+import AttachmentPhoto from './AttachmentPhoto';
 
 interface ManualInputModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (data: Omit<Reminder, 'id'>) => void;
+  onSave: (data: Omit<Reminder, 'id'>, medication?: MedicationDraft) => void;
   users: User[];
+  medications: Medication[];
   currentUser: User;
   initialData?: Reminder;
   reminderTypes: ReminderTypeDefinition[];
   onManageTypes: () => void;
 }
 
+type RecurrenceMode = Reminder['recurrence'] | 'weekdays' | 'workday' | 'nonworkday' | 'lunar' | 'custom';
+type MonthlyMode = 'day' | 'nth' | 'last';
+type EndMode = 'never' | 'until' | 'count';
+
+const WORKWEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const isWorkweekRule = (rule: RecurrenceRule) =>
+  rule.freq === 'weekly' && (rule.interval || 1) === 1 &&
+  rule.byWeekday?.length === 5 && WORKWEEK.every(d => rule.byWeekday!.includes(d));
+
 const ManualInputModal: React.FC<ManualInputModalProps> = ({ 
   isOpen, 
   onClose, 
   onSave, 
   users, 
+  medications,
   currentUser,
   initialData,
   reminderTypes,
@@ -28,59 +47,239 @@ const ManualInputModal: React.FC<ManualInputModalProps> = ({
   const [date, setDate] = useState('');
   const [selectedUserId, setSelectedUserId] = useState(currentUser.id);
   const [type, setType] = useState<string>('general');
-  const [recurrence, setRecurrence] = useState<Reminder['recurrence']>('once');
+  const [recurrenceMode, setRecurrenceMode] = useState<RecurrenceMode>('once');
+  const [customFreq, setCustomFreq] = useState<RecurrenceRule['freq']>('daily');
+  const [customInterval, setCustomInterval] = useState(1);
+  const [customWeekdays, setCustomWeekdays] = useState<Weekday[]>([]);
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>('day');
+  const [setPos, setSetPos] = useState(1);
+  const [setPosWeekday, setSetPosWeekday] = useState<Weekday>('SU');
+  const [endMode, setEndMode] = useState<EndMode>('never');
+  const [untilDate, setUntilDate] = useState('');
+  const [count, setCount] = useState(7);
+  const [lunarMonth, setLunarMonth] = useState(1);
+  const [lunarDay, setLunarDay] = useState(1);
+  const [lunarLeap, setLunarLeap] = useState(false);
   
   const [hour, setHour] = useState('08');
   const [minute, setMinute] = useState('00');
+  const [extraTimes, setExtraTimes] = useState<string[]>([]);
+  const [leadTimes, setLeadTimes] = useState<number[] | undefined>(undefined); // undefined follows the type default
+  const [trackStock, setTrackStock] = useState(false);
+  const [medicationId, setMedicationId] = useState(''); // Empty for a new medication
+  const [medicationName, setMedicationName] = useState('');
+  const [stock, setStock] = useState(0);
+  const [dose, setDose] = useState(1);
+  const [refillDays, setRefillDays] = useState(DEFAULT_REFILL_DAYS);
+  const [caregiverId, setCaregiverId] = useState('');
+  const [fieldValues, setFieldValues] = useState<{ [fieldId: string]: string }>({});
+  const [photoId, setPhotoId] = useState<string | undefined>(undefined);
+  const [isSavingPhoto, setIsSavingPhoto] = useState(false);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadMedication = (medication: Medication | undefined) => {
+    setMedicationId(medication?.id || '');
+    setMedicationName(medication?.name || '');
+    setStock(medication?.stock ?? 0);
+    setDose(medication?.dose ?? 1);
+    setRefillDays(medication?.refillDays ?? DEFAULT_REFILL_DAYS);
+    setCaregiverId(medication?.caregiverId || '');
+  };
+
+  const loadRecurrence = (data: Reminder | null) => {
+    const rule = data?.rule;
+    setCustomInterval(rule?.interval || 1);
+    setCustomFreq(rule?.freq || 'daily');
+    setCustomWeekdays(rule?.freq === 'weekly' || rule?.freq === 'daily' ? rule.byWeekday || [] : []);
+    setMonthlyMode(rule?.bySetPos ? 'nth' : rule?.byMonthDay?.includes(-1) ? 'last' : 'day');
+    setSetPos(rule?.bySetPos || 1);
+    setSetPosWeekday(rule?.bySetPos && rule.byWeekday?.[0] ? rule.byWeekday[0] : 'SU');
+    setEndMode(rule?.count ? 'count' : rule?.until ? 'until' : 'never');
+    setUntilDate(rule?.until || '');
+    setCount(rule?.count || 7);
+    setLunarMonth(rule?.lunarMonth || 1);
+    setLunarDay(rule?.lunarDay || 1);
+    setLunarLeap(!!rule?.lunarLeap);
+
+    if (!rule) setRecurrenceMode(data?.recurrence || 'once');
+    else if (isLunarRule(rule)) setRecurrenceMode('lunar');
+    else if (rule.dayFilter && rule.freq === 'daily' && !rule.interval && !rule.byWeekday?.length) setRecurrenceMode(rule.dayFilter);
+    else if (isPresetRule(rule)) setRecurrenceMode(rule.freq);
+    else if (isWorkweekRule(rule)) setRecurrenceMode('weekdays');
+    else setRecurrenceMode('custom');
+  };
+
+  const buildRule = (): RecurrenceRule | undefined => {
+    if (recurrenceMode === 'once') return undefined;
+
+    const rule = buildFrequencyRule();
+    if (endMode === 'never') return rule;
+
+    // Presets only need a rule object once they carry a bound
+    const bounded: RecurrenceRule = rule || { freq: recurrenceMode as RecurrenceRule['freq'] };
+    if (endMode === 'until' && untilDate) bounded.until = untilDate;
+    if (endMode === 'count') bounded.count = Math.max(1, count);
+    return bounded;
+  };
+
+  const buildFrequencyRule = (): RecurrenceRule | undefined => {
+    if (recurrenceMode === 'weekdays') return { freq: 'weekly', byWeekday: [...WORKWEEK] };
+    if (recurrenceMode === 'workday' || recurrenceMode === 'nonworkday') return { freq: 'daily', dayFilter: recurrenceMode };
+    if (recurrenceMode === 'lunar') {
+      return { freq: 'yearly', calendar: 'lunar', lunarMonth, lunarDay, ...(lunarLeap ? { lunarLeap: true } : {}) };
+    }
+    if (recurrenceMode !== 'custom') return undefined;
+
+    const rule: RecurrenceRule = { freq: customFreq };
+    if (customInterval > 1) rule.interval = customInterval;
+    if ((customFreq === 'weekly' || customFreq === 'daily') && customWeekdays.length > 0) {
+      rule.byWeekday = WEEKDAY_ORDER.filter(d => customWeekdays.includes(d));
+    }
+    if (customFreq === 'monthly') {
+      if (monthlyMode === 'nth') { rule.byWeekday = [setPosWeekday]; rule.bySetPos = setPos; }
+      if (monthlyMode === 'last') rule.byMonthDay = [-1];
+    }
+    return rule;
+  };
+
+  // Switching to lunar starts from the lunar date of the picked day
+  const handleRecurrenceModeChange = (mode: RecurrenceMode) => {
+    if (mode === 'lunar' && recurrenceMode !== 'lunar') {
+      const lunar = date ? toLunarDate(date) : null;
+      if (lunar) {
+        setLunarMonth(lunar.month);
+        setLunarDay(lunar.day);
+        setLunarLeap(lunar.leap);
+      }
+    }
+    setRecurrenceMode(mode);
+  };
+
+  const handleAddTime = () => {
+    setExtraTimes(prev => normalizeTimes([...prev, `${hour}:${minute}`]));
+  };
+
+  const toggleCustomWeekday = (day: Weekday) => {
+    setCustomWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
 
   useEffect(() => {
     if (isOpen) {
       if (initialData) {
         setTitle(initialData.title);
-        const [h, m] = initialData.time.split(':');
+        const [firstTime, ...otherTimes] = getReminderTimes(initialData);
+        const [h, m] = firstTime.split(':');
         setHour(h || '08');
         setMinute(m || '00');
+        setExtraTimes(otherTimes);
         setDate(initialData.date || getTodayString());
         setSelectedUserId(initialData.userId);
         setType(initialData.type);
-        setRecurrence(initialData.recurrence || 'once');
+        setLeadTimes(initialData.leadTimes);
+        setFieldValues(initialData.fields || {});
+        setPhotoId(initialData.photoId);
+        loadRecurrence(initialData);
+        const medication = medications.find(m => m.id === initialData.medicationId);
+        setTrackStock(!!medication);
+        loadMedication(medication);
       } else {
         setTitle('');
         const now = new Date();
         setHour(String(now.getHours()).padStart(2, '0'));
         setMinute(String(now.getMinutes()).padStart(2, '0'));
-        setDate(getTodayString());
-        if (currentUser.id === 'all' && users.length > 0) {
-            setSelectedUserId(users[0].id);
-        } else {
-            setSelectedUserId(currentUser.id);
-        }
+        setExtraTimes([]);
+        const defaultUser = currentUser.id === 'all' && users.length > 0 ? users[0] : currentUser;
+        setSelectedUserId(defaultUser.id);
+        setDate(isForeignTimeZone(defaultUser.timeZone) ? getTodayStringInZone(defaultUser.timeZone) : getTodayString());
         setType(reminderTypes[0]?.id || 'general');
-        setRecurrence('once');
+        setLeadTimes(undefined);
+        setFieldValues({});
+        setPhotoId(undefined);
+        loadRecurrence(null);
+        setTrackStock(false);
+        loadMedication(undefined);
       }
     }
-  }, [isOpen, initialData, currentUser, users, reminderTypes]);
+  }, [isOpen, initialData, currentUser, users, reminderTypes, medications]);
 
   if (!isOpen) return null;
 
+  const selectedUser = users.find(u => u.id === selectedUserId);
+  const selectedType = reminderTypes.find(t => t.id === type);
+  const activeLeadTimes = getLeadTimes({ leadTimes }, selectedType);
+  const memberZone = isForeignTimeZone(selectedUser?.timeZone) ? selectedUser!.timeZone! : null;
+  const memberMedications = medications.filter(m => m.userId === selectedUserId);
+  const showStock = type === MEDICATION_TYPE_ID;
+
+  // Lunar and holiday-aware reminders are anchored on the first matching day on or after the picked date
+  const anchoredRule = ['lunar', 'workday', 'nonworkday'].includes(recurrenceMode) ? buildFrequencyRule() : undefined;
+  const firstOccurrence = anchoredRule && date ? getFirstOccurrenceOnOrAfter(date, anchoredRule) : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title || !date) return;
     
-    const time = `${hour}:${minute}`;
+    const times = normalizeTimes([`${hour}:${minute}`, ...extraTimes]);
+    const rule = buildRule();
+    // Only the selected type's fields are kept, so switching type drops the other one's values
+    const fields: { [fieldId: string]: string } = {};
+    (selectedType?.fields || []).forEach(f => {
+      const value = fieldValues[f.id]?.trim();
+      if (value) fields[f.id] = value;
+    });
 
     onSave({
       title,
-      time,
-      date,
+      time: times[0],
+      times: times.length > 1 ? times : undefined,
+      completedTimes: times.length > 1 ? initialData?.completedTimes?.filter(t => times.includes(t)) : undefined,
+      date: firstOccurrence || date,
       userId: selectedUserId,
       type,
-      recurrence,
+      recurrence: rule ? rule.freq : (recurrenceMode as Reminder['recurrence']),
+      rule,
+      leadTimes,
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+      photoId,
       isCompleted: initialData ? initialData.isCompleted : false
-    });
+    }, showStock && trackStock ? {
+      id: medicationId || undefined,
+      userId: selectedUserId,
+      name: medicationName || title,
+      stock: Math.max(0, stock),
+      dose: Math.max(1, dose),
+      refillDays: Math.max(0, refillDays),
+      caregiverId: caregiverId || undefined
+    } : undefined);
     onClose();
   };
 
+  // A new picture is stored right away under a fresh id, the replaced one is cleaned up on the next start
+  const handlePickPhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsSavingPhoto(true);
+    try {
+        const id = uuidv4();
+        await saveAttachment(id, await compressPhoto(file));
+        setPhotoId(id);
+    } catch (err) {
+        console.error("Photo save failed:", err);
+        alert("照片保存失败");
+    } finally {
+        setIsSavingPhoto(false);
+    }
+  };
+
+  const toggleLeadTime = (minutes: number) => {
+    const next = activeLeadTimes.includes(minutes)
+      ? activeLeadTimes.filter(m => m !== minutes)
+      : [...activeLeadTimes, minutes].sort((a, b) => b - a);
+    setLeadTimes(next);
+  };
+
   const hours = Array.from({ length: 24 }, (_, i) => String(i).padStart(2, '0'));
   const minutes = Array.from({ length: 60 }, (_, i) => String(i).padStart(2, '0'));
 
@@ -154,24 +353,206 @@ const ManualInputModal: React.FC<ManualInputModalProps> = ({
                         </div>
                     </div>
                 </div>
+                {memberZone && (
+                    <p className="text-[10px] text-indigo-600 bg-indigo-50 rounded px-2 py-1">
+                        <i className="fa-solid fa-earth-americas mr-1"></i>
+                        日期和时间按{selectedUser!.name}所在地 ({getTimeZoneLabel(memberZone)}) 计算
+                    </p>
+                )}
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <label className="text-xs font-medium text-slate-500">每天多次</label>
+                        <button type="button" onClick={handleAddTime} className="text-xs text-blue-600 hover:text-blue-800"><i className="fa-solid fa-plus"></i> 添加当前时间</button>
+                    </div>
+                    {extraTimes.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                            {normalizeTimes([`${hour}:${minute}`, ...extraTimes]).map(t => (
+                                <span key={t} className="font-mono text-xs font-bold bg-blue-50 text-blue-700 px-2 py-1 rounded-full flex items-center gap-1">
+                                    {t}
+                                    {extraTimes.includes(t) && (
+                                        <button type="button" onClick={() => setExtraTimes(extraTimes.filter(x => x !== t))} className="text-blue-400 hover:text-red-500">
+                                            <i className="fa-solid fa-times"></i>
+                                        </button>
+                                    )}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <label className="text-xs font-medium text-slate-500">提前提醒</label>
+                        {leadTimes !== undefined && (
+                            <button type="button" onClick={() => setLeadTimes(undefined)} className="text-xs text-blue-600 hover:text-blue-800">跟随类型默认</button>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                        {LEAD_TIME_OPTIONS.map(m => (
+                            <button
+                                key={m}
+                                type="button"
+                                onClick={() => toggleLeadTime(m)}
+                                className={`px-2 py-1 rounded-full text-xs font-bold border ${activeLeadTimes.includes(m) ? 'bg-amber-500 text-white border-transparent' : 'bg-white text-slate-500 border-slate-200'}`}
+                            >
+                                {describeLeadTime(m)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
             </div>
 
             <div className="space-y-3 landscape:space-y-2 flex flex-col justify-between">
                 <div>
                     <label className="block text-xs font-medium text-slate-500 mb-1">重复频率</label>
                     <select
-                        value={recurrence}
-                        onChange={(e) => setRecurrence(e.target.value as any)}
+                        value={recurrenceMode}
+                        onChange={(e) => handleRecurrenceModeChange(e.target.value as RecurrenceMode)}
                         className="w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none text-sm"
                     >
                         <option value="once">一次性</option>
                         <option value="daily">每天</option>
+                        <option value="weekdays">每个工作日 (周一至周五)</option>
+                        <option value="workday">法定工作日 (节假日不响，调休照常)</option>
+                        <option value="nonworkday">休息日 (周末和节假日)</option>
                         <option value="weekly">每周</option>
                         <option value="monthly">每月</option>
                         <option value="yearly">每年</option>
+                        {isLunarSupported() && <option value="lunar">每年 (农历)</option>}
+                        <option value="custom">自定义...</option>
                     </select>
+                    {(recurrenceMode === 'workday' || recurrenceMode === 'nonworkday') && firstOccurrence && firstOccurrence !== date && (
+                        <p className="mt-1 text-[10px] text-slate-400">所选日期不符合，首次提醒：{firstOccurrence}</p>
+                    )}
+                    {recurrenceMode === 'lunar' && (
+                        <div className="mt-2 p-2 rounded-lg bg-slate-50 border border-slate-100 space-y-2">
+                            <div className="flex items-center gap-1 text-xs text-slate-500">
+                                <span>农历</span>
+                                <select value={lunarMonth} onChange={(e) => setLunarMonth(Number(e.target.value))} className="px-1 py-1 rounded border border-slate-200 bg-white text-sm">
+                                    {Array.from({ length: 12 }, (_, i) => i + 1).map(m => <option key={m} value={m}>{formatLunarMonth(m)}</option>)}
+                                </select>
+                                <select value={lunarDay} onChange={(e) => setLunarDay(Number(e.target.value))} className="px-1 py-1 rounded border border-slate-200 bg-white text-sm">
+                                    {Array.from({ length: 30 }, (_, i) => i + 1).map(d => <option key={d} value={d}>{formatLunarDay(d)}</option>)}
+                                </select>
+                                <label className="flex items-center gap-1 ml-1">
+                                    <input type="checkbox" checked={lunarLeap} onChange={(e) => setLunarLeap(e.target.checked)} />
+                                    闰月
+                                </label>
+                            </div>
+                            <p className="text-[10px] text-slate-400">
+                                {firstOccurrence ? `首次提醒：${firstOccurrence}` : '找不到对应日期'}
+                                {lunarLeap && ' · 没有闰月的年份按正常月份提醒'}
+                            </p>
+                        </div>
+                    )}
+                    {recurrenceMode === 'custom' && (
+                        <div className="mt-2 p-2 rounded-lg bg-slate-50 border border-slate-100 space-y-2">
+                            <div className="flex items-center gap-1 text-xs text-slate-600">
+                                <span>每</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={99}
+                                    value={customInterval}
+                                    onChange={(e) => setCustomInterval(Math.max(1, parseInt(e.target.value) || 1))}
+                                    className="w-12 px-1 py-1 rounded border border-slate-200 text-center"
+                                />
+                                <select
+                                    value={customFreq}
+                                    onChange={(e) => setCustomFreq(e.target.value as RecurrenceRule['freq'])}
+                                    className="px-1 py-1 rounded border border-slate-200"
+                                >
+                                    <option value="daily">天</option>
+                                    <option value="weekly">周</option>
+                                    <option value="monthly">个月</option>
+                                    <option value="yearly">年</option>
+                                </select>
+                            </div>
+                            {customFreq === 'weekly' && (
+                                <div className="flex gap-1">
+                                    {WEEKDAY_ORDER.map(d => (
+                                        <button
+                                            key={d}
+                                            type="button"
+                                            onClick={() => toggleCustomWeekday(d)}
+                                            className={`flex-1 py-1 rounded text-xs font-bold ${customWeekdays.includes(d) ? 'bg-purple-600 text-white' : 'bg-white border border-slate-200 text-slate-500'}`}
+                                        >
+                                            {WEEKDAY_LABELS[d]}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {customFreq === 'monthly' && (
+                                <div className="space-y-1 text-xs text-slate-600">
+                                    <select
+                                        value={monthlyMode}
+                                        onChange={(e) => setMonthlyMode(e.target.value as MonthlyMode)}
+                                        className="w-full px-1 py-1 rounded border border-slate-200"
+                                    >
+                                        <option value="day">按日期 (每月{date ? Number(date.split('-')[2]) : ''}号)</option>
+                                        <option value="nth">按星期 (第几个周几)</option>
+                                        <option value="last">每月最后一天</option>
+                                    </select>
+                                    {monthlyMode === 'nth' && (
+                                        <div className="flex gap-1">
+                                            <select value={setPos} onChange={(e) => setSetPos(Number(e.target.value))} className="flex-1 px-1 py-1 rounded border border-slate-200">
+                                                <option value={1}>第一个</option>
+                                                <option value={2}>第二个</option>
+                                                <option value={3}>第三个</option>
+                                                <option value={4}>第四个</option>
+                                                <option value={-1}>最后一个</option>
+                                            </select>
+                                            <select value={setPosWeekday} onChange={(e) => setSetPosWeekday(e.target.value as Weekday)} className="flex-1 px-1 py-1 rounded border border-slate-200">
+                                                {WEEKDAY_ORDER.map(d => <option key={d} value={d}>周{WEEKDAY_LABELS[d]}</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
 
+                {recurrenceMode !== 'once' && (
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">结束</label>
+                        <div className="flex gap-1 items-center">
+                            <select
+                                value={endMode}
+                                onChange={(e) => setEndMode(e.target.value as EndMode)}
+                                className="flex-1 px-2 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none text-sm"
+                            >
+                                <option value="never">一直重复</option>
+                                <option value="until">截止日期</option>
+                                <option value="count">重复次数</option>
+                            </select>
+                            {endMode === 'until' && (
+                                <input
+                                    type="date"
+                                    value={untilDate}
+                                    min={date}
+                                    onChange={(e) => setUntilDate(e.target.value)}
+                                    className="flex-1 px-2 py-2 rounded-lg border border-slate-200 bg-slate-50 outline-none text-sm"
+                                    required
+                                />
+                            )}
+                            {endMode === 'count' && (
+                                <div className="flex-1 flex items-center gap-1 text-xs text-slate-500">
+                                    <span>共</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={999}
+                                        value={count}
+                                        onChange={(e) => setCount(Math.max(1, parseInt(e.target.value) || 1))}
+                                        className="w-16 px-2 py-2 rounded-lg border border-slate-200 bg-slate-50 outline-none text-sm text-center"
+                                    />
+                                    <span>次</span>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex-1">
                     <div className="flex justify-between items-center mb-1">
                         <label className="text-xs font-medium text-slate-500">类型</label>
@@ -196,6 +577,110 @@ const ManualInputModal: React.FC<ManualInputModalProps> = ({
                     </div>
                 </div>
 
+                {selectedType?.fields && selectedType.fields.length > 0 && (
+                    <div className="grid grid-cols-2 gap-2">
+                        {selectedType.fields.map(f => (
+                            <div key={f.id}>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">{f.label}{f.kind === 'number' && f.unit ? ` (${f.unit})` : ''}</label>
+                                {f.kind === 'select' ? (
+                                    <select
+                                        value={fieldValues[f.id] || ''}
+                                        onChange={(e) => setFieldValues({ ...fieldValues, [f.id]: e.target.value })}
+                                        className="w-full px-2 py-1.5 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none text-sm"
+                                    >
+                                        <option value="">不填</option>
+                                        {(f.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+                                    </select>
+                                ) : (
+                                    <input
+                                        type={f.kind === 'number' ? 'number' : 'text'}
+                                        value={fieldValues[f.id] || ''}
+                                        onChange={(e) => setFieldValues({ ...fieldValues, [f.id]: e.target.value })}
+                                        className="w-full px-2 py-1.5 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none text-sm"
+                                    />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {showStock && (
+                    <div className="bg-red-50/50 border border-red-100 rounded-lg p-2 space-y-2">
+                        <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                            <input type="checkbox" checked={trackStock} onChange={(e) => setTrackStock(e.target.checked)} />
+                            记录药品库存
+                        </label>
+                        {trackStock && (
+                            <>
+                                {memberMedications.length > 0 && (
+                                    <select
+                                        value={medicationId}
+                                        onChange={(e) => loadMedication(memberMedications.find(m => m.id === e.target.value))}
+                                        className="w-full px-2 py-1.5 rounded-lg border border-slate-200 bg-white outline-none text-xs"
+                                    >
+                                        <option value="">新药品</option>
+                                        {memberMedications.map(m => <option key={m.id} value={m.id}>{m.name}（剩 {m.stock} 粒）</option>)}
+                                    </select>
+                                )}
+                                <input
+                                    type="text"
+                                    value={medicationName}
+                                    onChange={(e) => setMedicationName(e.target.value)}
+                                    placeholder={title || '药品名称'}
+                                    className="w-full px-2 py-1.5 rounded-lg border border-slate-200 bg-white outline-none text-xs"
+                                />
+                                <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-500">
+                                    <label>库存 (粒)
+                                        <input type="number" min={0} value={stock} onChange={(e) => setStock(Math.max(0, parseInt(e.target.value) || 0))} className="w-full px-2 py-1 rounded border border-slate-200 bg-white text-xs text-center" />
+                                    </label>
+                                    <label>每次 (粒)
+                                        <input type="number" min={1} value={dose} onChange={(e) => setDose(Math.max(1, parseInt(e.target.value) || 1))} className="w-full px-2 py-1 rounded border border-slate-200 bg-white text-xs text-center" />
+                                    </label>
+                                    <label>少于几天提醒
+                                        <input type="number" min={0} value={refillDays} onChange={(e) => setRefillDays(Math.max(0, parseInt(e.target.value) || 0))} className="w-full px-2 py-1 rounded border border-slate-200 bg-white text-xs text-center" />
+                                    </label>
+                                </div>
+                                <div className="flex items-center gap-2 text-[10px] text-slate-500">
+                                    <span className="flex-shrink-0">谁去买药</span>
+                                    <select
+                                        value={caregiverId}
+                                        onChange={(e) => setCaregiverId(e.target.value)}
+                                        className="flex-1 px-2 py-1 rounded border border-slate-200 bg-white outline-none text-xs"
+                                    >
+                                        <option value="">{selectedUser ? `${selectedUser.name}本人` : '本人'}</option>
+                                        {users.filter(u => u.id !== selectedUserId).map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                                    </select>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {isAttachmentStorageSupported() && (
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">照片（如药盒）</label>
+                        <div className="flex items-center gap-2">
+                            {photoId && (
+                                <div className="relative">
+                                    <AttachmentPhoto photoId={photoId} className="w-16 h-16 rounded-lg object-cover border border-slate-200" />
+                                    <button type="button" onClick={() => setPhotoId(undefined)} className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-700 text-white text-[10px] flex items-center justify-center">
+                                        <i className="fa-solid fa-times"></i>
+                                    </button>
+                                </div>
+                            )}
+                            <button type="button" disabled={isSavingPhoto} onClick={() => cameraInputRef.current?.click()} className="px-3 py-1.5 rounded-lg border border-slate-200 bg-slate-50 text-xs font-bold text-slate-600 disabled:opacity-50">
+                                <i className="fa-solid fa-camera mr-1"></i>拍照
+                            </button>
+                            <button type="button" disabled={isSavingPhoto} onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 rounded-lg border border-slate-200 bg-slate-50 text-xs font-bold text-slate-600 disabled:opacity-50">
+                                <i className="fa-solid fa-image mr-1"></i>选图片
+                            </button>
+                            {isSavingPhoto && <i className="fa-solid fa-spinner fa-spin text-slate-400"></i>}
+                            <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePickPhoto} />
+                            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handlePickPhoto} />
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex gap-2 pt-2">
                     <button
                     type="button"
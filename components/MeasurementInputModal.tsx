@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { Measurement, MeasurementKind, User } from '../types';
+import { MEASUREMENT_KINDS, MEASUREMENT_KIND_ORDER, isOutOfRange, parseReading } from '../services/measurements';
+
+// A reminder that was just completed carries its kind and slot, a manual entry only the member
+export interface MeasurementRequest {
+  userId: string;
+  kind?: MeasurementKind;
+  reminderId?: string;
+  time?: string;
+}
+
+interface MeasurementInputModalProps {
+  request: MeasurementRequest | null;
+  users: User[];
+  onSave: (data: Omit<Measurement, 'id' | 'at'>) => void;
+  onSkip: () => void;
+}
+
+const MeasurementInputModal: React.FC<MeasurementInputModalProps> = ({ request, users, onSave, onSkip }) => {
+  const [userId, setUserId] = useState('');
+  const [kind, setKind] = useState<MeasurementKind>('bloodPressure');
+  const [raw, setRaw] = useState<{ [component: string]: string }>({});
+
+  useEffect(() => {
+    if (request) {
+        setUserId(request.userId);
+        setKind(request.kind || 'bloodPressure');
+        setRaw({});
+    }
+  }, [request]);
+
+  if (!request) return null;
+
+  const info = MEASUREMENT_KINDS[kind];
+  const values = parseReading(kind, raw);
+  const user = users.find(u => u.id === userId);
+  const fromReminder = !!request.reminderId;
+
+  const handleSave = () => {
+    if (!values) return;
+    onSave({ userId, kind, values, reminderId: request.reminderId, time: request.time });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[350] flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4 landscape:p-2 animate-fade-in">
+      <div className="bg-white rounded-2xl w-full max-w-sm shadow-2xl overflow-hidden animate-slide-up">
+        <div className="bg-slate-50 px-4 py-3 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="text-base font-bold text-slate-800">
+              <i className={`fa-solid fa-${info.icon} mr-2 text-rose-500`}></i>
+              {fromReminder ? `记录${user ? user.name + '的' : ''}${info.label}` : '记录健康数据'}
+          </h3>
+          <button onClick={onSkip} className="text-slate-400 hover:text-slate-600">
+            <i className="fa-solid fa-times text-lg"></i>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+            {!fromReminder && (
+                <>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">成员</label>
+                        <select
+                            value={userId}
+                            onChange={(e) => setUserId(e.target.value)}
+                            className="w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:border-blue-500 outline-none text-sm"
+                        >
+                            {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {MEASUREMENT_KIND_ORDER.map(k => (
+                            <button
+                                key={k}
+                                type="button"
+                                onClick={() => { setKind(k); setRaw({}); }}
+                                className={`px-3 py-1 rounded-full text-xs font-bold border ${kind === k ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200'}`}
+                            >
+                                <i className={`fa-solid fa-${MEASUREMENT_KINDS[k].icon} mr-1`}></i>{MEASUREMENT_KINDS[k].label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            {info.components.map(c => {
+                const value = parseFloat(raw[c.id] || '');
+                const abnormal = Number.isFinite(value) && isOutOfRange(c, value);
+                return (
+                    <div key={c.id}>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">
+                            {c.label}{c.optional && '（可选）'}
+                            {c.normal && <span className="text-slate-400 ml-1">参考 {c.normal[0]}-{c.normal[1]}</span>}
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="number"
+                                inputMode="decimal"
+                                step={c.step}
+                                min={0}
+                                value={raw[c.id] || ''}
+                                onChange={(e) => setRaw({ ...raw, [c.id]: e.target.value })}
+                                className={`flex-1 px-3 py-2 rounded-lg border bg-slate-50 focus:bg-white outline-none text-lg font-mono ${abnormal ? 'border-red-400 text-red-600 focus:border-red-500' : 'border-slate-200 focus:border-blue-500'}`}
+                            />
+                            <span className="text-sm text-slate-500 w-14">{c.unit}</span>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="px-4 pb-4 flex gap-2">
+            <button onClick={onSkip} className="flex-1 py-2 rounded-xl bg-slate-100 text-slate-600 font-bold text-sm">
+                {fromReminder ? '跳过' : '取消'}
+            </button>
+            <button
+                onClick={handleSave}
+                disabled={!values}
+                className="flex-1 py-2 rounded-xl bg-blue-600 text-white font-bold text-sm disabled:opacity-40"
+            >
+                保存
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementInputModal;
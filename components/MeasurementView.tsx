@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Measurement, MeasurementKind, User } from '../types';
+import { MEASUREMENT_KINDS, MEASUREMENT_KIND_ORDER, MeasurementComponent, isOutOfRange, hasOutOfRange, formatMeasurement, measurementsToCsv } from '../services/measurements';
+
+interface MeasurementViewProps {
+  measurements: Measurement[];
+  users: User[];
+  initialUserId: string;
+  onAdd: (userId: string, kind: MeasurementKind) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+const CHART_PAD = 8;
+
+const formatAt = (at: number) => {
+  const d = new Date(at);
+  return `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+// One line per component over the selected range, with the reference band shaded and readings outside it in red
+const TrendChart: React.FC<{ component: MeasurementComponent; readings: Measurement[]; since: number; until: number }> = ({ component, readings, since, until }) => {
+  const points = readings
+    .filter(m => m.values[component.id] !== undefined)
+    .map(m => ({ id: m.id, at: m.at, value: m.values[component.id] }));
+
+  if (points.length === 0) return null;
+
+  const values = points.map(p => p.value).concat(component.normal || []);
+  const spread = Math.max(...values) - Math.min(...values) || 1;
+  const low = Math.min(...values) - spread * 0.1;
+  const high = Math.max(...values) + spread * 0.1;
+
+  const x = (at: number) => CHART_PAD + (at - since) / Math.max(1, until - since) * (CHART_WIDTH - CHART_PAD * 2);
+  const y = (value: number) => CHART_PAD + (high - value) / (high - low) * (CHART_HEIGHT - CHART_PAD * 2);
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="rounded-2xl landscape:rounded-xl border-2 border-slate-100 p-3 landscape:p-2">
+        <div className="flex justify-between items-baseline mb-1">
+            <span className="text-sm font-bold text-slate-700">{component.label}</span>
+            <span className={`font-mono font-bold ${isOutOfRange(component, latest.value) ? 'text-red-600' : 'text-slate-700'}`}>
+                {latest.value} <span className="text-xs text-slate-400">{component.unit}</span>
+            </span>
+        </div>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-28 landscape:h-20">
+            {component.normal && (
+                <rect
+                    x={0}
+                    y={y(component.normal[1])}
+                    width={CHART_WIDTH}
+                    height={y(component.normal[0]) - y(component.normal[1])}
+                    className="fill-green-100"
+                />
+            )}
+            <polyline
+                points={points.map(p => `${x(p.at)},${y(p.value)}`).join(' ')}
+                fill="none"
+                strokeWidth={2}
+                className="stroke-blue-400"
+            />
+            {points.map(p => (
+                <circle
+                    key={p.id}
+                    cx={x(p.at)}
+                    cy={y(p.value)}
+                    r={isOutOfRange(component, p.value) ? 4 : 3}
+                    className={isOutOfRange(component, p.value) ? 'fill-red-500' : 'fill-blue-600'}
+                />
+            ))}
+        </svg>
+        {component.normal && (
+            <div className="text-[10px] text-slate-400">绿色区域为参考范围 {component.normal[0]}-{component.normal[1]} {component.unit}</div>
+        )}
+    </div>
+  );
+};
+
+const MeasurementView: React.FC<MeasurementViewProps> = ({ measurements, users, initialUserId, onAdd, onDelete, onClose }) => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [selectedUserId, setSelectedUserId] = useState(initialUserId);
+  const [kind, setKind] = useState<MeasurementKind>('bloodPressure');
+
+  const now = Date.now();
+  const since = now - rangeDays * 86400000;
+  const readings = measurements
+    .filter(m => m.userId === selectedUserId && m.kind === kind && m.at >= since)
+    .sort((a, b) => a.at - b.at);
+  const info = MEASUREMENT_KINDS[kind];
+
+  // Everything on record for the member, all kinds, so it can be handed to the doctor as is
+  const handleExportCsv = () => {
+    const user = users.find(u => u.id === selectedUserId);
+    const csv = measurementsToCsv(measurements.filter(m => m.userId === selectedUserId), users);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `Health_${user?.name || selectedUserId}_${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a); a.click(); document.body.removeChild(a);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-white animate-fade-in">
+        <div className="flex justify-between items-center p-6 landscape:p-2 border-b border-slate-100">
+            <h2 className="text-2xl landscape:text-lg font-bold text-slate-800">健康记录</h2>
+            <div className="flex gap-2 items-center">
+                <div className="flex bg-slate-100 rounded-full p-0.5">
+                    {RANGES.map(d => (
+                        <button
+                            key={d}
+                            onClick={() => setRangeDays(d)}
+                            className={`px-3 py-1 landscape:py-0.5 rounded-full text-xs font-bold ${rangeDays === d ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                        >
+                            {d}天
+                        </button>
+                    ))}
+                </div>
+                <button onClick={onClose} className="w-10 h-10 landscape:w-8 landscape:h-8 rounded-full bg-slate-100 hover:bg-slate-200 flex items-center justify-center ml-2">
+                    <i className="fa-solid fa-times text-slate-600 landscape:text-xs"></i>
+                </button>
+            </div>
+        </div>
+
+        <div className="flex-1 p-4 landscape:p-2 overflow-y-auto space-y-3">
+            <div className="flex gap-2 overflow-x-auto scrollbar-hide">
+                {users.map(u => (
+                    <button
+                        key={u.id}
+                        onClick={() => setSelectedUserId(u.id)}
+                        className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-bold border-2 flex-shrink-0 ${selectedUserId === u.id ? 'border-blue-300 bg-blue-50 text-slate-800' : 'border-slate-100 text-slate-500'}`}
+                    >
+                        <span>{u.avatar}</span>{u.name}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2 items-center">
+                {MEASUREMENT_KIND_ORDER.map(k => (
+                    <button
+                        key={k}
+                        onClick={() => setKind(k)}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border ${kind === k ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200'}`}
+                    >
+                        <i className={`fa-solid fa-${MEASUREMENT_KINDS[k].icon} mr-1`}></i>{MEASUREMENT_KINDS[k].label}
+                    </button>
+                ))}
+                <div className="flex-1"></div>
+                <button onClick={() => onAdd(selectedUserId, kind)} className="px-3 py-1 rounded-lg bg-blue-50 text-blue-600 text-xs font-bold">
+                    <i className="fa-solid fa-plus mr-1"></i>记录
+                </button>
+                <button onClick={handleExportCsv} className="px-3 py-1 rounded-lg bg-slate-100 text-slate-600 text-xs font-bold">
+                    <i className="fa-solid fa-file-csv mr-1"></i>导出 CSV
+                </button>
+            </div>
+
+            {readings.length === 0 ? (
+                <p className="text-xs text-slate-400">这段时间还没有{info.label}记录</p>
+            ) : (
+                <>
+                    {info.components.map(c => (
+                        <TrendChart key={c.id} component={c} readings={readings} since={since} until={now} />
+                    ))}
+
+                    <div>
+                        <h3 className="text-sm font-bold text-slate-500 mb-2">最近记录</h3>
+                        <div className="space-y-1">
+                            {readings.slice(-20).reverse().map(m => (
+                                <div key={m.id} className="flex items-center gap-2 text-xs">
+                                    <span className="text-slate-400 font-mono w-20">{formatAt(m.at)}</span>
+                                    <span className={`flex-1 font-bold ${hasOutOfRange(m) ? 'text-red-600' : 'text-slate-700'}`}>
+                                        {formatMeasurement(m)}
+                                        {hasOutOfRange(m) && <i className="fa-solid fa-triangle-exclamation ml-1"></i>}
+                                    </span>
+                                    <button onClick={() => onDelete(m.id)} className="text-slate-300 hover:text-red-500">
+                                        <i className="fa-solid fa-trash"></i>
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default MeasurementView;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { HistoryEvent, HistoryEventKind, ReminderTypeDefinition, User } from '../types';
+import { summarizeAdherence, AdherenceStats } from '../services/history';
+
+interface ReportViewProps {
+  history: HistoryEvent[];
+  users: User[];
+  reminderTypes: ReminderTypeDefinition[];
+  onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const KIND_LABELS: Record<HistoryEventKind, string> = {
+  fired: '响铃', snoozed: '稍后', completed: '完成', reopened: '撤销完成', skipped: '跳过', missed: '错过', escalated: '通知看护人'
+};
+
+const KIND_COLORS: Record<HistoryEventKind, string> = {
+  fired: 'text-slate-500', snoozed: 'text-orange-500', completed: 'text-green-600', reopened: 'text-slate-400',
+  skipped: 'text-slate-400', missed: 'text-amber-600', escalated: 'text-rose-600'
+};
+
+const formatRate = (stats?: AdherenceStats) => stats?.rate == null ? '--' : `${Math.round(stats.rate * 100)}%`;
+
+const rateColor = (stats?: AdherenceStats) => {
+  if (stats?.rate == null) return 'bg-slate-200';
+  if (stats.rate >= 0.9) return 'bg-green-500';
+  if (stats.rate >= 0.7) return 'bg-amber-500';
+  return 'bg-red-500';
+};
+
+const ReportView: React.FC<ReportViewProps> = ({ history, users, reminderTypes, onClose }) => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  const since = Date.now() - rangeDays * 86400000;
+  const byMember = summarizeAdherence(history, since, e => e.userId);
+  const byMemberType = summarizeAdherence(history, since, e => `${e.userId}|${e.type}`);
+
+  const recentEvents = history
+    .filter(e => e.at >= since && e.kind !== 'fired' && (!selectedUserId || e.userId === selectedUserId))
+    .slice(-30)
+    .reverse();
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-white animate-fade-in">
+        <div className="flex justify-between items-center p-6 landscape:p-2 border-b border-slate-100">
+            <h2 className="text-2xl landscape:text-lg font-bold text-slate-800">执行记录</h2>
+            <div className="flex gap-2 items-center">
+                <div className="flex bg-slate-100 rounded-full p-0.5">
+                    {RANGES.map(d => (
+                        <button
+                            key={d}
+                            onClick={() => setRangeDays(d)}
+                            className={`px-3 py-1 landscape:py-0.5 rounded-full text-xs font-bold ${rangeDays === d ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+                        >
+                            {d}天
+                        </button>
+                    ))}
+                </div>
+                <button onClick={onClose} className="w-10 h-10 landscape:w-8 landscape:h-8 rounded-full bg-slate-100 hover:bg-slate-200 flex items-center justify-center ml-2">
+                    <i className="fa-solid fa-times text-slate-600 landscape:text-xs"></i>
+                </button>
+            </div>
+        </div>
+
+        <div className="flex-1 p-4 landscape:p-2 overflow-y-auto space-y-3">
+            {users.map(user => {
+                const stats = byMember[user.id];
+                const isSelected = selectedUserId === user.id;
+                return (
+                    <div key={user.id} className={`rounded-2xl landscape:rounded-xl border-2 p-3 landscape:p-2 ${isSelected ? 'border-blue-300 bg-blue-50/40' : 'border-slate-100'}`}>
+                        <button onClick={() => setSelectedUserId(isSelected ? null : user.id)} className="w-full flex items-center gap-3 text-left">
+                            <div className={`w-10 h-10 landscape:w-8 landscape:h-8 rounded-full flex items-center justify-center text-xl ${user.color} text-white flex-shrink-0`}>
+                                {user.avatar}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex justify-between items-baseline">
+                                    <span className="font-bold text-slate-800">{user.name}</span>
+                                    <span className="font-mono font-bold text-lg text-slate-700">{formatRate(stats)}</span>
+                                </div>
+                                <div className="h-2 bg-slate-100 rounded-full overflow-hidden mt-1">
+                                    <div className={`h-full ${rateColor(stats)}`} style={{ width: `${Math.round((stats?.rate || 0) * 100)}%` }}></div>
+                                </div>
+                                <div className="text-[10px] text-slate-400 mt-1">
+                                    {stats ? `完成 ${stats.completed}/${stats.due} · 补做 ${stats.late} · 跳过 ${stats.skipped} · 错过 ${stats.missed} · 稍后 ${stats.snoozes}次` : '暂无记录'}
+                                    {stats && stats.escalations > 0 && ` · 通知看护人 ${stats.escalations}次`}
+                                </div>
+                            </div>
+                        </button>
+
+                        {stats && (
+                            <div className="mt-2 space-y-1">
+                                {reminderTypes.map(t => {
+                                    const typeStats = byMemberType[`${user.id}|${t.id}`];
+                                    if (!typeStats || typeStats.due === 0) return null;
+                                    return (
+                                        <div key={t.id} className="flex items-center gap-2 text-xs text-slate-600 pl-12 landscape:pl-10">
+                                            <i className={`fa-solid fa-${t.icon} w-4 text-center`}></i>
+                                            <span className="w-12 truncate">{t.label}</span>
+                                            <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                                <div className={`h-full ${rateColor(typeStats)}`} style={{ width: `${Math.round((typeStats.rate || 0) * 100)}%` }}></div>
+                                            </div>
+                                            <span className="font-mono font-bold w-10 text-right">{formatRate(typeStats)}</span>
+                                            <span className="text-slate-400 w-12 text-right">{typeStats.completed}/{typeStats.due}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <div>
+                <h3 className="text-sm font-bold text-slate-500 mb-2">
+                    最近记录{selectedUserId ? ` · ${users.find(u => u.id === selectedUserId)?.name || ''}` : ''}
+                </h3>
+                {recentEvents.length === 0 ? (
+                    <p className="text-xs text-slate-400">这段时间还没有记录</p>
+                ) : (
+                    <div className="space-y-1">
+                        {recentEvents.map(e => {
+                            const user = users.find(u => u.id === e.userId);
+                            return (
+                                <div key={e.id} className="flex items-center gap-2 text-xs bg-slate-50 rounded-lg px-2 py-1">
+                                    <span className="text-slate-400 font-mono w-24 flex-shrink-0">{new Date(e.at).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}</span>
+                                    <span>{user?.avatar || '👤'}</span>
+                                    <span className="flex-1 truncate text-slate-700">{e.time} {e.title}</span>
+                                    <span className={`font-bold ${KIND_COLORS[e.kind]}`}>
+                                        {KIND_LABELS[e.kind]}{e.kind === 'snoozed' && e.snoozeMinutes ? ` ${e.snoozeMinutes}分` : ''}{e.late ? ' (补做)' : ''}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ReportView;
@@ -1,8 +1,16 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { User, VoiceSettings, AISettings, AIProvider, Reminder, CloudSettings, ReminderTypeDefinition } from '../types';
+import { User, VoiceSettings, AISettings, AIProvider, Reminder, CloudSettings, ReminderTypeDefinition, EscalationPolicy, HistoryEvent, HolidayCalendar, QuietHours, Medication, CustomFieldDefinition, Measurement, MeasurementKind } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { createCloudBackup, updateCloudBackup, fetchCloudBackup } from '../services/cloudService';
+import { DEFAULT_GRACE_MINUTES, DEFAULT_MAX_AUTO_SNOOZES, LEAD_TIME_OPTIONS, DEFAULT_QUIET_HOURS, DEFAULT_BRIEFING_TIME, DEFAULT_BRIEFING_TEMPLATE } from '../constants';
+import { describeLeadTime } from '../services/reminderSlots';
+import { parseHolidayCalendar, getCoveredYears, getHolidayCalendarUpdatedAt } from '../services/holidays';
+import { COMMON_TIME_ZONES, getDeviceTimeZone } from '../services/timeZone';
+import { NotificationPermissionState } from '../services/notificationService';
+import { FIELD_KIND_LABELS } from '../services/customFields';
+import { MEASUREMENT_KINDS, MEASUREMENT_KIND_ORDER } from '../services/measurements';
+import { PROVIDER_LABELS, isProviderConfigured } from '../services/providerChain';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -19,6 +27,16 @@ interface SettingsModalProps {
   setCloudSettings: (settings: CloudSettings) => void;
   reminderTypes: ReminderTypeDefinition[];
   setReminderTypes: (types: ReminderTypeDefinition[]) => void;
+  history: HistoryEvent[];
+  setHistory: (history: HistoryEvent[]) => void;
+  medications: Medication[];
+  setMedications: (medications: Medication[]) => void;
+  measurements: Measurement[];
+  setMeasurements: (measurements: Measurement[]) => void;
+  customHolidays: HolidayCalendar | null;
+  setCustomHolidays: (calendar: HolidayCalendar | null) => void;
+  notificationPermission: NotificationPermissionState;
+  onRequestNotificationPermission: () => void;
   initialTab?: string;
 }
 
@@ -27,7 +45,7 @@ const COLOR_OPTIONS = [
   'bg-blue-500', 'bg-emerald-500', 'bg-indigo-500', 'bg-rose-500', 
   'bg-yellow-500', 'bg-purple-500', 'bg-cyan-500', 'bg-orange-500', 'bg-slate-500'
 ];
-const ICON_OPTIONS = ['capsules', 'person-running', 'note-sticky', 'utensils', 'cart-shopping', 'heart', 'briefcase', 'book', 'car', 'plane'];
+const ICON_OPTIONS = ['capsules', 'person-running', 'note-sticky', 'hospital', 'droplet', 'heart-pulse', 'weight-scale', 'temperature-half', 'utensils', 'cart-shopping', 'heart', 'briefcase', 'book', 'car', 'plane'];
 
 const PROVIDER_LINKS: Record<string, string> = {
     gemini: 'https://aistudiocdn.com/apikey',
@@ -37,6 +55,8 @@ const PROVIDER_LINKS: Record<string, string> = {
     openai: 'https://platform.openai.com/api-keys'
 };
 
+const PROVIDER_ORDER: AIProvider[] = ['gemini', 'deepseek', 'moonshot', 'siliconflow', 'openai', 'custom'];
+
 const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
@@ -54,6 +74,16 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   setCloudSettings,
   reminderTypes,
   setReminderTypes,
+  history,
+  setHistory,
+  medications,
+  setMedications,
+  measurements,
+  setMeasurements,
+  customHolidays,
+  setCustomHolidays,
+  notificationPermission,
+  onRequestNotificationPermission,
   initialTab
 }) => {
   const [activeTab, setActiveTab] = useState<'family' | 'types' | 'voice' | 'ai' | 'data' | 'cloud'>('family');
@@ -62,6 +92,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   const [autoBackupTime, setAutoBackupTime] = useState<string | null>(null);
   const [isCloudSyncing, setIsCloudSyncing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const holidayInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
       if (isOpen && initialTab) {
@@ -98,7 +129,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
 
   if (!isOpen) return null;
 
-  const handleUpdateUser = (id: string, field: keyof User, value: string) => {
+  const handleUpdateUser = (id: string, field: keyof User, value: string | QuietHours | undefined) => {
     setUsers(users.map(u => u.id === id ? { ...u, [field]: value } : u));
   };
 
@@ -106,12 +137,31 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     setUsers([...users, { id: uuidv4(), name: '新成员', avatar: '😊', color: 'bg-slate-500' }]);
   };
 
-  const handleUpdateType = (id: string, field: keyof ReminderTypeDefinition, value: string) => {
+  const handleUpdateType = (id: string, field: keyof ReminderTypeDefinition, value: string | number | number[] | boolean | undefined) => {
     setReminderTypes(reminderTypes.map(t => t.id === id ? { ...t, [field]: value } : t));
   };
   
+  const handleToggleLeadTime = (type: ReminderTypeDefinition, minutes: number) => {
+      const current = type.defaultLeadTimes || [];
+      const next = current.includes(minutes) ? current.filter(m => m !== minutes) : [...current, minutes].sort((a, b) => b - a);
+      handleUpdateType(type.id, 'defaultLeadTimes', next);
+  };
+
+  const handleUpdateEscalation = (type: ReminderTypeDefinition, changes: Partial<EscalationPolicy>) => {
+      const current: EscalationPolicy = type.escalation || { enabled: false, maxAutoSnoozes: DEFAULT_MAX_AUTO_SNOOZES };
+      setReminderTypes(reminderTypes.map(t => t.id === type.id ? { ...t, escalation: { ...current, ...changes } } : t));
+  };
+
   const handleAddType = () => {
-      setReminderTypes([...reminderTypes, { id: uuidv4(), label: '新类型', icon: 'note-sticky', color: 'bg-blue-500' }]);
+      setReminderTypes([...reminderTypes, { id: uuidv4(), label: '新类型', icon: 'note-sticky', color: 'bg-blue-500', graceMinutes: DEFAULT_GRACE_MINUTES }]);
+  };
+
+  const handleUpdateFields = (type: ReminderTypeDefinition, fields: CustomFieldDefinition[]) => {
+      setReminderTypes(reminderTypes.map(t => t.id === type.id ? { ...t, fields } : t));
+  };
+
+  const handleUpdateField = (type: ReminderTypeDefinition, fieldId: string, changes: Partial<CustomFieldDefinition>) => {
+      handleUpdateFields(type, (type.fields || []).map(f => f.id === fieldId ? { ...f, ...changes } : f));
   };
 
   const handleDeleteType = (id: string) => {
@@ -155,6 +205,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       setAiSettings({ ...aiSettings, activeProvider: provider });
   };
 
+  // Fallbacks keep their order, the active provider is always tried first and never listed
+  const fallbackProviders = (aiSettings.fallbackProviders || []).filter(p => p !== aiSettings.activeProvider);
+
+  const toggleFallback = (provider: AIProvider) => {
+      const next = fallbackProviders.includes(provider) ? fallbackProviders.filter(p => p !== provider) : [...fallbackProviders, provider];
+      setAiSettings({ ...aiSettings, fallbackProviders: next });
+  };
+
+  const moveFallback = (provider: AIProvider, offset: number) => {
+      const next = [...fallbackProviders];
+      const from = next.indexOf(provider);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= next.length) return;
+      [next[from], next[to]] = [next[to], next[from]];
+      setAiSettings({ ...aiSettings, fallbackProviders: next });
+  };
+
   const updateAiConfig = (field: 'apiKey' | 'baseUrl' | 'model', value: string) => {
       const active = aiSettings.activeProvider;
       const currentConfigs = aiSettings.configs;
@@ -163,7 +230,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   };
 
   const handleExportData = () => {
-    const data = { users, reminders, voiceSettings, aiSettings, reminderTypes, exportDate: new Date().toISOString(), version: "1.1" };
+    const data = { users, reminders, voiceSettings, aiSettings, reminderTypes, history, medications, measurements, exportDate: new Date().toISOString(), version: "1.1" };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -184,6 +251,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             if (json.voiceSettings) setVoiceSettings(json.voiceSettings);
             if (json.aiSettings) setAiSettings(json.aiSettings);
             if (json.reminderTypes) setReminderTypes(json.reminderTypes);
+            if (json.history) setHistory(json.history);
+            if (json.medications) setMedications(json.medications);
+            if (json.measurements) setMeasurements(json.measurements);
             alert("恢复成功");
         } catch (err) { alert("格式错误"); }
     };
@@ -191,6 +261,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleImportHolidays = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+        try {
+            const calendar = parseHolidayCalendar(JSON.parse(event.target?.result as string));
+            if (!calendar) { alert("格式错误"); return; }
+            setCustomHolidays(calendar);
+            alert(`已导入 ${Object.keys(calendar.years).join('、')} 年节假日`);
+        } catch (err) { alert("格式错误"); }
+    };
+    reader.readAsText(file);
+    if (holidayInputRef.current) holidayInputRef.current.value = '';
+  };
+
   const handleResetData = () => {
     if (confirm("确定重置？")) { localStorage.clear(); window.location.reload(); }
   };
@@ -205,6 +291,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             if (parsed.voiceSettings) setVoiceSettings(parsed.voiceSettings);
             if (parsed.aiSettings) setAiSettings(parsed.aiSettings);
             if (parsed.reminderTypes) setReminderTypes(parsed.reminderTypes);
+            if (parsed.history) setHistory(parsed.history);
+            if (parsed.medications) setMedications(parsed.medications);
+            if (parsed.measurements) setMeasurements(parsed.measurements);
             alert("恢复成功");
         } else {
             alert("无自动备份");
@@ -216,7 +305,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       if (!cloudSettings.apiKey) { alert("无 Key"); return; }
       setIsCloudSyncing(true);
       try {
-          const data = { users, reminders, voiceSettings, aiSettings, reminderTypes, version: "1.1", lastUpdated: new Date().toISOString() };
+          const data = { users, reminders, voiceSettings, aiSettings, reminderTypes, history, medications, measurements, version: "1.1", lastUpdated: new Date().toISOString() };
           if (cloudSettings.binId) {
               await updateCloudBackup(cloudSettings.apiKey, cloudSettings.binId, data);
               alert("更新成功");
@@ -239,6 +328,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           if (data.voiceSettings) setVoiceSettings(data.voiceSettings);
           if (data.aiSettings) setAiSettings(data.aiSettings);
           if (data.reminderTypes) setReminderTypes(data.reminderTypes);
+          if (data.history) setHistory(data.history);
+          if (data.medications) setMedications(data.medications);
+          if (data.measurements) setMeasurements(data.measurements);
           alert("恢复成功");
       } catch (e: any) { alert(`失败: ${e.message}`); } finally { setIsCloudSyncing(false); }
   };
@@ -287,6 +379,33 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         <div className="flex gap-1 overflow-x-auto scrollbar-hide">
                           {COLOR_OPTIONS.map(c => <button key={c} onClick={() => handleUpdateUser(user.id, 'color', c)} className={`w-4 h-4 rounded-full flex-shrink-0 ${c}`} />)}
                         </div>
+                        <select value={user.timeZone || ''} onChange={(e) => handleUpdateUser(user.id, 'timeZone', e.target.value || undefined)} className="w-full bg-white border border-slate-200 rounded px-1 py-0.5 text-[10px] text-slate-500">
+                          <option value="">时区：跟随本机 ({getDeviceTimeZone()})</option>
+                          {COMMON_TIME_ZONES.map(z => <option key={z.id} value={z.id}>{z.label} ({z.id})</option>)}
+                          {user.timeZone && !COMMON_TIME_ZONES.some(z => z.id === user.timeZone) && <option value={user.timeZone}>{user.timeZone}</option>}
+                        </select>
+                        <div className="flex items-center gap-1 text-[10px] text-slate-500">
+                          <label className="flex items-center gap-1 font-bold">
+                            <input type="checkbox" checked={!!user.quietHours} onChange={(e) => handleUpdateUser(user.id, 'quietHours', e.target.checked ? DEFAULT_QUIET_HOURS : undefined)} />
+                            勿扰时段
+                          </label>
+                          {user.quietHours && (
+                            <>
+                              <input type="time" value={user.quietHours.start} onChange={(e) => e.target.value && handleUpdateUser(user.id, 'quietHours', { ...user.quietHours!, start: e.target.value })} className="bg-white border border-slate-200 rounded px-1" />
+                              <span>至</span>
+                              <input type="time" value={user.quietHours.end} onChange={(e) => e.target.value && handleUpdateUser(user.id, 'quietHours', { ...user.quietHours!, end: e.target.value })} className="bg-white border border-slate-200 rounded px-1" />
+                            </>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 text-[10px] text-slate-500">
+                          <label className="flex items-center gap-1 font-bold">
+                            <input type="checkbox" checked={!!user.briefingTime} onChange={(e) => handleUpdateUser(user.id, 'briefingTime', e.target.checked ? DEFAULT_BRIEFING_TIME : undefined)} />
+                            每日简报
+                          </label>
+                          {user.briefingTime && (
+                            <input type="time" value={user.briefingTime} onChange={(e) => e.target.value && handleUpdateUser(user.id, 'briefingTime', e.target.value)} className="bg-white border border-slate-200 rounded px-1" />
+                          )}
+                        </div>
                       </div>
                       <button onClick={(e) => handleRequestDelete(e, user.id)} className="w-8 h-8 flex items-center justify-center text-slate-400 hover:text-red-500"><i className="fa-solid fa-trash-can"></i></button>
                     </>
@@ -319,6 +438,68 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           <div className="flex gap-1 overflow-x-auto scrollbar-hide">
                               {COLOR_OPTIONS.map(c => <button key={c} onClick={() => handleUpdateType(t.id, 'color', c)} className={`w-4 h-4 rounded-full flex-shrink-0 ${c} ${t.color === c ? 'ring-2 ring-slate-400' : ''}`} />)}
                           </div>
+                          <div className="flex items-center gap-2 text-xs text-slate-500">
+                              <span>错过宽限</span>
+                              <input type="number" min={0} max={720} value={t.graceMinutes ?? DEFAULT_GRACE_MINUTES} onChange={(e) => handleUpdateType(t.id, 'graceMinutes', Math.max(0, parseInt(e.target.value) || 0))} className="w-16 bg-white border border-slate-200 rounded px-2 py-0.5 text-center" />
+                              <span>分钟内补响</span>
+                              <label className="flex items-center gap-1 font-bold ml-auto">
+                                  <input type="checkbox" checked={!!t.critical} onChange={(e) => handleUpdateType(t.id, 'critical', e.target.checked)} />
+                                  勿扰时仍响铃
+                              </label>
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-slate-500">
+                              <span>完成时记录</span>
+                              <select value={t.measurement || ''} onChange={(e) => handleUpdateType(t.id, 'measurement', (e.target.value as MeasurementKind) || undefined)} className="bg-white border border-slate-200 rounded px-2 py-0.5">
+                                  <option value="">不记录</option>
+                                  {MEASUREMENT_KIND_ORDER.map(k => <option key={k} value={k}>{MEASUREMENT_KINDS[k].label}</option>)}
+                              </select>
+                          </div>
+                          <div className="flex items-center gap-1 flex-wrap text-xs text-slate-500">
+                              <span className="mr-1">默认提前</span>
+                              {LEAD_TIME_OPTIONS.map(m => (
+                                  <button key={m} onClick={() => handleToggleLeadTime(t, m)} className={`px-2 py-0.5 rounded-full font-bold border ${t.defaultLeadTimes?.includes(m) ? 'bg-amber-500 text-white border-transparent' : 'bg-white border-slate-200'}`}>
+                                      {describeLeadTime(m)}
+                                  </button>
+                              ))}
+                          </div>
+                          <div className="flex items-center gap-2 flex-wrap text-xs text-slate-500">
+                              <label className="flex items-center gap-1 font-bold">
+                                  <input type="checkbox" checked={!!t.escalation?.enabled} onChange={(e) => handleUpdateEscalation(t, { enabled: e.target.checked })} />
+                                  无人响应时通知
+                              </label>
+                              {t.escalation?.enabled && (
+                                  <>
+                                      <select value={t.escalation.caregiverId || ''} onChange={(e) => handleUpdateEscalation(t, { caregiverId: e.target.value || undefined })} className="bg-white border border-slate-200 rounded px-1 py-0.5">
+                                          <option value="">全家</option>
+                                          {users.map(u => <option key={u.id} value={u.id}>{u.avatar} {u.name}</option>)}
+                                      </select>
+                                      <span>自动延后</span>
+                                      <input type="number" min={1} max={10} value={t.escalation.maxAutoSnoozes} onChange={(e) => handleUpdateEscalation(t, { maxAutoSnoozes: Math.max(1, parseInt(e.target.value) || 1) })} className="w-12 bg-white border border-slate-200 rounded px-1 py-0.5 text-center" />
+                                      <span>次后</span>
+                                  </>
+                              )}
+                          </div>
+                          <div className="space-y-1 text-xs text-slate-500">
+                              <div className="flex justify-between items-center">
+                                  <span className="font-bold">附加信息</span>
+                                  <button onClick={() => handleUpdateFields(t, [...(t.fields || []), { id: uuidv4(), label: '新字段', kind: 'text' }])} className="text-blue-600 hover:text-blue-800"><i className="fa-solid fa-plus"></i> 添加字段</button>
+                              </div>
+                              {(t.fields || []).map(f => (
+                                  <div key={f.id} className="flex items-center gap-1 flex-wrap">
+                                      <input type="text" value={f.label} onChange={(e) => handleUpdateField(t, f.id, { label: e.target.value })} className="w-20 bg-white border border-slate-200 rounded px-1 py-0.5" />
+                                      <select value={f.kind} onChange={(e) => handleUpdateField(t, f.id, { kind: e.target.value as CustomFieldDefinition['kind'] })} className="bg-white border border-slate-200 rounded px-1 py-0.5">
+                                          {Object.entries(FIELD_KIND_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                                      </select>
+                                      {f.kind === 'select' && (
+                                          <input type="text" defaultValue={(f.options || []).join('、')} onBlur={(e) => handleUpdateField(t, f.id, { options: e.target.value.split(/[、,，]/).map(o => o.trim()).filter(Boolean) })} placeholder="选项用顿号分隔" className="flex-1 min-w-[80px] bg-white border border-slate-200 rounded px-1 py-0.5" />
+                                      )}
+                                      {f.kind === 'number' && (
+                                          <input type="text" value={f.unit || ''} onChange={(e) => handleUpdateField(t, f.id, { unit: e.target.value || undefined })} placeholder="单位" className="w-14 bg-white border border-slate-200 rounded px-1 py-0.5" />
+                                      )}
+                                      <button onClick={() => handleUpdateFields(t, (t.fields || []).filter(x => x.id !== f.id))} className="text-slate-400 hover:text-red-500 px-1 ml-auto"><i className="fa-solid fa-times"></i></button>
+                                  </div>
+                              ))}
+                          </div>
                       </div>
                   ))}
                   <button onClick={handleAddType} className="w-full py-3 border-2 border-dashed border-slate-300 text-slate-500 rounded-xl font-bold flex items-center justify-center gap-2 text-sm"><i className="fa-solid fa-plus"></i> 添加类型</button>
@@ -376,17 +557,56 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 </>
               )}
               <button onClick={handleTestVoice} className="w-full py-2 bg-indigo-600 text-white rounded-lg font-bold text-sm">测试</button>
+              <div className="bg-slate-50 p-2 rounded space-y-2">
+                  <span className="text-xs font-bold">每日简报</span>
+                  <input
+                      type="text"
+                      placeholder={DEFAULT_BRIEFING_TEMPLATE}
+                      value={voiceSettings.briefingTemplate || ''}
+                      onChange={(e) => setVoiceSettings({...voiceSettings, briefingTemplate: e.target.value})}
+                      className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm"
+                  />
+                  <p className="text-[10px] text-slate-400">可用 {'{greeting}'} 问候、{'{name}'} 称呼、{'{count}'} 件数、{'{items}'} 当天事项。简报时间在"成员"里为每位家人设置。</p>
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                      <input type="checkbox" checked={!!voiceSettings.briefingUseAI} onChange={(e) => setVoiceSettings({...voiceSettings, briefingUseAI: e.target.checked})} />
+                      用 AI 润色（使用 AI 设置中的服务，失败时按模板播报）
+                  </label>
+              </div>
+              <div className="bg-slate-50 p-2 rounded space-y-2">
+                  <div className="flex justify-between items-center text-xs">
+                      <span className="font-bold">系统通知</span>
+                      {notificationPermission === 'default' && (
+                          <button onClick={onRequestNotificationPermission} className="px-3 py-1 bg-blue-600 text-white rounded font-bold">开启通知</button>
+                      )}
+                      {notificationPermission === 'granted' && <span className="text-green-600 font-bold"><i className="fa-solid fa-check mr-1"></i>已开启</span>}
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                      {{
+                          'granted': '关闭页面后，到点也会弹出系统通知，点击通知即可打开提醒。',
+                          'default': '开启后，关闭页面时到点也会弹出系统通知。',
+                          'denied': '通知已被浏览器拒绝，请在浏览器的网站设置中允许通知后再回来。',
+                          'unsupported': '此浏览器不支持后台通知，请保持页面打开。'
+                      }[notificationPermission]}
+                  </p>
+              </div>
             </div>
           )}
 
           {activeTab === 'ai' && (
              <div className="space-y-4 landscape:grid landscape:grid-cols-2 landscape:gap-4 landscape:space-y-0">
                  <div className="col-span-2 flex flex-wrap gap-2">
-                     {['gemini', 'deepseek', 'moonshot', 'siliconflow', 'openai', 'custom'].map((p: any) => (
-                         <button key={p} onClick={() => handleProviderChange(p)} className={`p-2 rounded border text-xs font-bold ${aiSettings.activeProvider === p ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200'}`}>{p}</button>
+                     {[...PROVIDER_ORDER, 'offline'].map((p: any) => (
+                         <button key={p} onClick={() => handleProviderChange(p)} className={`p-2 rounded border text-xs font-bold ${aiSettings.activeProvider === p ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200'}`}>{p === 'offline' ? '离线' : p}</button>
                      ))}
                  </div>
                  
+                 {aiSettings.activeProvider === 'offline' ? (
+                    <div className="col-span-2 text-xs text-slate-500 bg-slate-50 p-2 rounded space-y-1">
+                        <p>离线模式不联网、不需要 Key，按固定规则识别常见说法，只能添加提醒。</p>
+                        <p className="text-slate-400">例如："明天早上八点提醒爷爷吃药"、"每天晚上九点量血压"、"半小时后关火"、"下周三下午三点去医院"</p>
+                    </div>
+                 ) : (
+                 <>
                  <div className="col-span-2">
                     <div className="flex justify-between items-center mb-1">
                         <label className="text-xs font-bold text-slate-500">API Key</label>
@@ -408,6 +628,29 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                  {aiSettings.activeProvider === 'openai' && (
                     <div className="text-xs text-slate-500 col-span-2">此 Key 可同时用于 AI 对话 和 TTS 语音合成。</div>
                  )}
+                 <div className="col-span-2 bg-slate-50 p-2 rounded space-y-1">
+                     <div className="text-xs font-bold text-slate-500">备用服务</div>
+                     <p className="text-[10px] text-slate-400">{PROVIDER_LABELS[aiSettings.activeProvider]} 出错时按顺序改用勾选的服务，全部不可用时使用离线解析</p>
+                     {[...fallbackProviders, ...PROVIDER_ORDER.filter(p => p !== aiSettings.activeProvider && !fallbackProviders.includes(p))].map(p => {
+                         const index = fallbackProviders.indexOf(p);
+                         return (
+                             <div key={p} className="flex items-center gap-2 text-xs">
+                                 <input type="checkbox" checked={index !== -1} onChange={() => toggleFallback(p)} />
+                                 <span className="font-bold w-6 text-slate-400">{index !== -1 ? index + 1 : ''}</span>
+                                 <span className="flex-1">{PROVIDER_LABELS[p]}</span>
+                                 {!isProviderConfigured(aiSettings, p) && <span className="text-[10px] text-amber-600">未配置 Key</span>}
+                                 {index !== -1 && (
+                                     <>
+                                     <button onClick={() => moveFallback(p, -1)} disabled={index === 0} className="px-1 text-slate-500 disabled:text-slate-200"><i className="fa-solid fa-arrow-up"></i></button>
+                                     <button onClick={() => moveFallback(p, 1)} disabled={index === fallbackProviders.length - 1} className="px-1 text-slate-500 disabled:text-slate-200"><i className="fa-solid fa-arrow-down"></i></button>
+                                     </>
+                                 )}
+                             </div>
+                         );
+                     })}
+                 </div>
+                 </>
+                 )}
              </div>
           )}
 
@@ -419,6 +662,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                      <button onClick={handleExportData} className="py-2 bg-emerald-500 text-white rounded font-bold text-sm">导出</button>
                      <div className="relative"><input type="file" ref={fileInputRef} onChange={handleImportData} className="hidden" /><button onClick={() => fileInputRef.current?.click()} className="w-full py-2 bg-blue-500 text-white rounded font-bold text-sm">导入</button></div>
                  </div>
+                 <p className="text-[10px] text-slate-400">提醒照片只保存在本机，不包含在导出文件和云同步中</p>
+                 <div className="bg-slate-50 p-2 rounded space-y-2">
+                     <div className="flex justify-between items-center text-xs">
+                         <span className="font-bold">节假日数据</span>
+                         <span className="text-slate-400">{getCoveredYears().join('、')}年 · 更新于 {getHolidayCalendarUpdatedAt()}</span>
+                     </div>
+                     {!getCoveredYears().includes(new Date().getFullYear()) && (
+                         <p className="text-[10px] text-amber-600">缺少今年的放假安排，法定工作日按周一至周五计算</p>
+                     )}
+                     <div className="flex gap-2">
+                         <input type="file" accept=".json" ref={holidayInputRef} onChange={handleImportHolidays} className="hidden" />
+                         <button onClick={() => holidayInputRef.current?.click()} className="flex-1 py-1.5 bg-white border border-slate-200 rounded font-bold text-xs">导入节假日 JSON</button>
+                         {customHolidays && <button onClick={() => setCustomHolidays(null)} className="flex-1 py-1.5 bg-white border border-slate-200 rounded font-bold text-xs text-slate-500">恢复内置数据</button>}
+                     </div>
+                 </div>
                  <button onClick={handleResetData} className="w-full py-2 border border-red-200 text-red-500 rounded font-bold text-sm">重置所有</button>
              </div>
           )}
@@ -440,6 +698,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                      <button onClick={handleCloudSync} disabled={isCloudSyncing} className="flex-1 py-2 bg-purple-600 text-white rounded font-bold text-sm">更新</button>
                      <button onClick={handleCloudRestore} disabled={isCloudSyncing} className="flex-1 py-2 border border-purple-200 text-purple-600 rounded font-bold text-sm">恢复</button>
                  </div>
+                 <p className="text-[10px] text-slate-400">照片不会上传，恢复到其他设备后需重新拍摄</p>
              </div>
           )}
         </div>
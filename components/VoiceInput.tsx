@@ -1,27 +1,83 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { parseReminderWithGemini } from '../services/geminiService';
-import { User, VoiceSettings, AISettings } from '../types';
-import { getTodayString } from '../constants';
+import { parseReminderOffline } from '../services/offlineParser';
+import { validateParsedReminder, repairReminderChanges } from '../services/reminderValidation';
+import { getProviderChain, runWithFallback, PROVIDER_LABELS } from '../services/providerChain';
+import { User, VoiceSettings, AISettings, Medication, Reminder, ReminderTypeDefinition, AIResponse, ConversationTurn } from '../types';
+import { getTodayString, CONVERSATION_TIMEOUT_MINUTES, MAX_CONVERSATION_TURNS } from '../constants';
+import { describeRecurrence } from '../services/recurrence';
+import { normalizeTimes, getReminderTimes, isSlotCompleted } from '../services/reminderSlots';
+import { isForeignTimeZone } from '../services/timeZone';
+import { getDaysLeft } from '../services/medication';
+import { describeFields } from '../services/customFields';
+import { buildReminderSummary, resolveTargets, buildReminderPatch, describeReminderLine, getParsedReminders, buildReminderFromParsed } from '../services/assistantActions';
 
 interface VoiceInputProps {
   currentUser: User;
   users: User[];
+  medications: Medication[];
+  reminders: Reminder[]; // Summarized for the assistant and used to project how long each medication lasts
+  reminderTypes: ReminderTypeDefinition[];
   onAddReminder: (data: any) => void;
+  onUpdateReminder: (id: string, patch: Partial<Reminder>) => void;
+  onDeleteReminders: (ids: string[]) => void;
+  onCompleteReminder: (id: string, time?: string) => void;
   onManualInput: () => void;
   voiceSettings: VoiceSettings;
   aiSettings: AISettings;
 }
 
+type ChatMessageType = 'text' | 'success-card' | 'error' | 'reminder-list' | 'confirm-card' | 'batch-card';
+
+// Update and delete wait for a tap on the card before anything changes
+interface PendingChange {
+  kind: 'update' | 'delete';
+  lines: string[];
+  after?: string; // The updated reminder, for update
+  ids: string[];
+  patch?: Partial<Reminder>;
+  status: 'pending' | 'applied' | 'cancelled';
+}
+
+// Several reminders from one request, each can be unticked or edited before they are added
+interface PendingBatch {
+  items: { data: Omit<Reminder, 'id'>; checked: boolean; timesText: string; note?: string }[];
+  status: 'pending' | 'applied' | 'cancelled';
+}
+
+const parseTimesText = (text: string): string[] => normalizeTimes(text.split(/[\s,，、\/]+/).map(t => t.length === 4 ? '0' + t : t));
+
+const isBatchItemValid = (item: PendingBatch['items'][number]) =>
+  !!item.data.userId && !!item.data.title.trim() && item.data.date >= getTodayString() && parseTimesText(item.timesText).length > 0;
+
 interface ChatMessage {
   id: number;
   role: 'user' | 'assistant' | 'system';
   text: string;
-  type?: 'text' | 'success-card' | 'error';
+  type?: ChatMessageType;
   data?: any;
+  at?: number; // Unset for the greeting, which isn't part of any conversation
+  response?: AIResponse;
+  provider?: string; // Who answered, shown under the reply
 }
 
-const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddReminder, onManualInput, voiceSettings, aiSettings }) => {
+// Turns of the conversation still running at `now`, oldest first. A silence longer than the timeout ends it.
+// Errors and notices stay out, the model never saw them.
+const getConversation = (messages: ChatMessage[], now: number): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  let next = now;
+  for (let i = messages.length - 1; i >= 0; i--) {
+      const m = messages[i];
+      if (!m.at || m.role === 'system' || m.type === 'error') continue;
+      if (next - m.at > CONVERSATION_TIMEOUT_MINUTES * 60000) break;
+      next = m.at;
+      turns.unshift({ role: m.role, text: m.text, response: m.response });
+  }
+  return turns.slice(-MAX_CONVERSATION_TURNS);
+};
+
+const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, medications, reminders, reminderTypes, onAddReminder, onUpdateReminder, onDeleteReminders, onCompleteReminder, onManualInput, voiceSettings, aiSettings }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -35,11 +91,11 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
   const recognitionRef = useRef<any>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const latestPropsRef = useRef({ currentUser, users, aiSettings, voiceSettings });
+  const latestPropsRef = useRef({ currentUser, users, aiSettings, voiceSettings, medications, reminders, reminderTypes, onCompleteReminder });
   
   useEffect(() => {
-    latestPropsRef.current = { currentUser, users, aiSettings, voiceSettings };
-  }, [currentUser, users, aiSettings, voiceSettings]);
+    latestPropsRef.current = { currentUser, users, aiSettings, voiceSettings, medications, reminders, reminderTypes, onCompleteReminder };
+  }, [currentUser, users, aiSettings, voiceSettings, medications, reminders, reminderTypes, onCompleteReminder]);
 
   useEffect(() => {
     if (chatEndRef.current) {
@@ -61,8 +117,9 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
       }
   };
 
-  const addMessage = (role: 'user' | 'assistant' | 'system', text: string, type: 'text' | 'success-card' | 'error' = 'text', data?: any) => {
-      setMessages(prev => [...prev, { id: Date.now(), role, text, type, data }]);
+  const addMessage = (role: 'user' | 'assistant' | 'system', text: string, type: ChatMessageType = 'text', data?: any, response?: AIResponse, provider?: string) => {
+      const now = Date.now();
+      setMessages(prev => [...prev, { id: now + Math.random(), role, text, type, data, at: now, response, provider }]);
   };
 
   const startListening = () => {
@@ -154,55 +211,157 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
 
   const handleUserSpeechComplete = async (text: string) => {
       if (!text.trim()) return;
+      const history = getConversation(messages, Date.now());
+      if (history.length === 0 && messages.some(m => m.at && m.role !== 'system')) {
+          addMessage('system', '之前的对话已超时，以下为新对话');
+      }
       addMessage('user', text);
       setIsProcessing(true);
       
       try {
-          const { currentUser: curUser, users: allUsers, aiSettings: curSettings } = latestPropsRef.current;
-          const activeConfig = curSettings.configs?.[curSettings.activeProvider] || curSettings.configs?.gemini;
-          
-          if (!activeConfig?.apiKey && curSettings.activeProvider !== 'custom' && curSettings.activeProvider !== 'gemini') {
-              throw new Error(`请先配置 API Key`);
-          }
+          const { currentUser: curUser, users: allUsers, aiSettings: curSettings, medications: meds, reminders: allReminders, reminderTypes: types } = latestPropsRef.current;
+          const isOffline = curSettings.activeProvider === 'offline';
+          const chain = isOffline ? [] : getProviderChain(curSettings);
 
           const familyNames = allUsers.map(u => u.name);
           const todayStr = getTodayString();
-          const result = await parseReminderWithGemini(
-              text, curUser.name, familyNames, todayStr,
-              activeConfig, curSettings.activeProvider
-          );
+          const memberTimeZones: { [name: string]: string } = {};
+          allUsers.forEach(u => { if (isForeignTimeZone(u.timeZone)) memberTimeZones[u.name] = u.timeZone!; });
+          const medicationStock = meds.map(m => ({
+              member: allUsers.find(u => u.id === m.userId)?.name || '家人',
+              name: m.name,
+              stock: m.stock,
+              dose: m.dose,
+              daysLeft: getDaysLeft(m, allReminders)
+          }));
+          const { summary, idsByRef } = buildReminderSummary(allReminders, allUsers, todayStr);
+
+          const parseOffline = () => parseReminderOffline(text, { users: allUsers, currentUserId: curUser.id, types, now: new Date(), history });
+
+          // Without a key, or when every provider fails, the built-in parser still handles plain "add a reminder" requests
+          let result: AIResponse | null;
+          let answeredBy = PROVIDER_LABELS.offline;
+          if (chain.length === 0) {
+              if (!isOffline) addMessage('system', '未配置 API Key，已使用离线解析');
+              result = parseOffline();
+          } else {
+              try {
+                  const answer = await runWithFallback(chain, provider => parseReminderWithGemini(
+                      text, curUser.name, familyNames, todayStr,
+                      curSettings.configs[provider], provider,
+                      { memberTimeZones, medications: medicationStock, reminderTypes: types, history, reminders: summary }
+                  ));
+                  result = answer.result;
+                  answeredBy = `${PROVIDER_LABELS[answer.provider]} 回答`;
+                  if (answer.attempts.length > 0) answeredBy += ` · ${answer.attempts.map(a => PROVIDER_LABELS[a.provider]).join('、')} 不可用`;
+              } catch (e: any) {
+                  console.warn("AI providers failed, using offline parser:", e);
+                  addMessage('system', `AI 服务不可用（${e.message}），已改用离线解析`);
+                  result = parseOffline();
+              }
+          }
+          const reply = (replyText: string, type?: ChatMessageType, data?: any, response?: AIResponse) =>
+              addMessage('assistant', replyText, type, data, response, answeredBy);
 
           if (result) {
-              if (result.action === 'create_reminder' && result.reminder) {
-                  let targetUserId = curUser.id;
-                  if (result.reminder.targetUser) {
-                      const exactMatch = allUsers.find(u => u.name === result.reminder!.targetUser);
-                      if (exactMatch) targetUserId = exactMatch.id;
-                      else {
-                          const found = allUsers.find(u => result.reminder!.targetUser!.includes(u.name));
-                          if (found) targetUserId = found.id;
-                      }
-                  } else if (curUser.id === 'all') throw new Error("请指明是给谁的？");
-                  
-                  const targetUserObj = allUsers.find(u => u.id === targetUserId) || curUser;
-                  const recurrence = result.reminder.recurrence || 'once';
-
-                  onAddReminder({
-                      title: result.reminder.title,
-                      time: result.reminder.time,
-                      date: result.reminder.date,
-                      userId: targetUserId,
-                      type: result.reminder.type,
-                      recurrence: recurrence,
-                      isCompleted: false
+              const parsedReminders = result.action === 'create_reminder' ? getParsedReminders(result) : [];
+              if (parsedReminders.length > 0) {
+                  const checks = parsedReminders.map(p => validateParsedReminder(p, allUsers, types, todayStr));
+                  const drafts = checks.map(c => {
+                      const data = buildReminderFromParsed(c.reminder, allUsers, curUser.id, types, todayStr);
+                      // A name nobody in the family has must not fall back to the member in view
+                      return c.problem === 'member' ? { ...data, userId: '' } : data;
                   });
 
-                  addMessage('assistant', '已添加提醒：', 'success-card', { ...result.reminder, targetUserName: targetUserObj.name, recurrence });
+                  if (drafts.length > 1) {
+                      // Several at once are listed for review, members the model couldn't tell are picked on the card
+                      const batch: PendingBatch = {
+                          items: drafts.map((data, i) => ({ data, checked: !!data.userId && !checks[i].question, timesText: getReminderTimes(data).join(' '), note: checks[i].question })),
+                          status: 'pending'
+                      };
+                      reply(`听到${drafts.length}个提醒，请确认：`, 'batch-card', batch, result);
+                      speakText(`一共${drafts.length}个提醒，请确认后添加。`);
+                      return;
+                  }
+
+                  const data = drafts[0];
+                  if (checks[0].question) {
+                      const replyText = checks[0].question;
+                      reply(replyText, 'text', undefined, { action: 'chat_response', replyText });
+                      speakText(replyText);
+                      return;
+                  }
+                  if (!data.userId) {
+                      // Asked as a normal reply so the name given next completes this reminder
+                      const replyText = '请问是提醒谁？';
+                      reply(replyText, 'text', undefined, { action: 'chat_response', replyText });
+                      speakText(replyText);
+                      return;
+                  }
+
+                  onAddReminder(data);
+                  const type = types.find(t => t.id === data.type);
+                  reply('已添加提醒：', 'success-card', { ...data, time: getReminderTimes(data).join(' / '), targetUserName: allUsers.find(u => u.id === data.userId)?.name || curUser.name, details: describeFields(data, type) }, result);
                   speakText("好的，已添加。");
-              
+
               } else if (result.action === 'chat_response' && result.replyText) {
-                  addMessage('assistant', result.replyText);
+                  reply(result.replyText, 'text', undefined, result);
                   speakText(result.replyText);
+
+              } else if (result.action === 'query_reminders') {
+                  const found = resolveTargets(result.targets, idsByRef, allReminders);
+                  const replyText = result.replyText || (found.length > 0 ? `找到${found.length}个提醒。` : '没有找到相关提醒。');
+                  reply(replyText, found.length > 0 ? 'reminder-list' : 'text', {
+                      lines: found.map(f => describeReminderLine(f.reminder, allUsers, f.time))
+                  }, result);
+                  speakText(replyText);
+
+              } else if (['update_reminder', 'delete_reminder', 'complete_reminder'].includes(result.action)) {
+                  const found = resolveTargets(result.targets, idsByRef, allReminders);
+                  if (found.length === 0) {
+                      const replyText = '没有找到要修改的提醒，请说得具体一些。';
+                      reply(replyText, 'text', undefined, { action: 'chat_response', replyText });
+                      speakText(replyText);
+                      return;
+                  }
+
+                  if (result.action === 'delete_reminder') {
+                      const change: PendingChange = {
+                          kind: 'delete',
+                          lines: found.map(f => describeReminderLine(f.reminder, allUsers)),
+                          ids: Array.from(new Set(found.map(f => f.reminder.id))),
+                          status: 'pending'
+                      };
+                      reply('确定删除以下提醒吗？', 'confirm-card', change, result);
+                      speakText('确定要删除吗？');
+                  } else if (result.action === 'update_reminder') {
+                      const { reminder, time } = found[0];
+                      const patch = buildReminderPatch(reminder, time, repairReminderChanges(result.changes, todayStr), allUsers);
+                      if (!patch) throw new Error("没有听出要改成什么");
+                      const change: PendingChange = {
+                          kind: 'update',
+                          lines: [describeReminderLine(reminder, allUsers, time)],
+                          after: describeReminderLine({ ...reminder, ...patch }, allUsers),
+                          ids: [reminder.id],
+                          patch,
+                          status: 'pending'
+                      };
+                      reply('确定这样修改吗？', 'confirm-card', change, result);
+                      speakText('确定要修改吗？');
+                  } else {
+                      // Completing can be undone from the list, so it is applied straight away
+                      const { reminder } = found[0];
+                      const time = found[0].time || getReminderTimes(reminder).find(t => !isSlotCompleted(reminder, t));
+                      if (!time || isSlotCompleted(reminder, time)) {
+                          const replyText = `${reminder.title}已经完成了。`;
+                          reply(replyText, 'text', undefined, { action: 'chat_response', replyText });
+                          speakText(replyText);
+                          return;
+                      }
+                      latestPropsRef.current.onCompleteReminder(reminder.id, getReminderTimes(reminder).length > 1 ? time : undefined);
+                      reply('已标记完成：', 'reminder-list', { lines: [describeReminderLine(reminder, allUsers, time)], done: true }, result);
+                      speakText('好的，已标记完成。');
+                  }
               } else throw new Error("无法理解");
           } else throw new Error("AI 返回空");
 
@@ -214,6 +373,47 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
       }
   };
 
+  const resolveChange = (messageId: number, confirmed: boolean) => {
+      const message = messages.find(m => m.id === messageId);
+      const change = message?.data as PendingChange | undefined;
+      if (!change || change.status !== 'pending') return;
+      if (confirmed) {
+          if (change.kind === 'delete') onDeleteReminders(change.ids);
+          else if (change.patch) onUpdateReminder(change.ids[0], change.patch);
+      }
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, data: { ...change, status: confirmed ? 'applied' : 'cancelled' } } : m));
+      speakText(confirmed ? (change.kind === 'delete' ? '已删除。' : '已修改。') : '好的，不改了。');
+  };
+
+  const updateBatch = (messageId: number, update: (batch: PendingBatch) => PendingBatch) => {
+      setMessages(prev => prev.map(m => m.id === messageId && m.type === 'batch-card' ? { ...m, data: update(m.data) } : m));
+  };
+
+  const updateBatchItem = (messageId: number, index: number, change: { checked?: boolean; timesText?: string; data?: Partial<Omit<Reminder, 'id'>> }) => {
+      updateBatch(messageId, batch => ({
+          ...batch,
+          items: batch.items.map((item, i) => i === index ? {
+              checked: change.checked ?? item.checked,
+              timesText: change.timesText ?? item.timesText,
+              data: { ...item.data, ...change.data },
+              // The validation note is about the original values, an edit answers it
+              note: change.data || change.timesText !== undefined ? undefined : item.note
+          } : item)
+      }));
+  };
+
+  const resolveBatch = (messageId: number, confirmed: boolean) => {
+      const batch = messages.find(m => m.id === messageId)?.data as PendingBatch | undefined;
+      if (!batch || batch.status !== 'pending') return;
+      const chosen = confirmed ? batch.items.filter(item => item.checked && isBatchItemValid(item)) : [];
+      chosen.forEach(item => {
+          const times = parseTimesText(item.timesText);
+          onAddReminder({ ...item.data, title: item.data.title.trim(), time: times[0], times: times.length > 1 ? times : undefined });
+      });
+      updateBatch(messageId, b => ({ ...b, status: confirmed ? 'applied' : 'cancelled' }));
+      speakText(confirmed ? `已添加${chosen.length}个提醒。` : '好的，都不添加了。');
+  };
+
   const toggleAssistant = () => { setIsOpen(!isOpen); };
 
   const handleMicClick = () => {
@@ -258,7 +458,7 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
                             <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600"><i className="fa-solid fa-robot text-sm"></i></div>
                             <div>
                                 <h3 className="font-bold text-slate-800 text-sm leading-tight">AI 助手</h3>
-                                <p className="text-[10px] text-slate-400">{aiSettings.activeProvider}</p>
+                                <p className="text-[10px] text-slate-400">{PROVIDER_LABELS[aiSettings.activeProvider]}</p>
                             </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -268,7 +468,9 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
                     </div>
 
                     <div className="flex-1 overflow-y-auto p-4 landscape:p-2 space-y-4">
-                        {messages.map(msg => (
+                        {messages.map(msg => msg.role === 'system' ? (
+                            <div key={msg.id} className="text-center text-[10px] text-slate-400">{msg.text}</div>
+                        ) : (
                             <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                                 {msg.role === 'assistant' && <div className="w-8 h-8 rounded-full bg-blue-500 flex-shrink-0 flex items-center justify-center text-white text-xs mr-2 mt-1">AI</div>}
                                 <div className={`w-full max-w-[90%] space-y-2`}>
@@ -286,15 +488,93 @@ const VoiceInput: React.FC<VoiceInputProps> = ({ currentUser, users, onAddRemind
                                             <div className="grid grid-cols-2 gap-2 mt-2 pt-2 border-t border-slate-100 text-sm">
                                                 <div className="bg-slate-50 p-2 rounded-lg"><div className="text-xs text-slate-400">时间</div><div className="font-mono font-bold text-slate-700">{msg.data.time}</div></div>
                                                 <div className="bg-slate-50 p-2 rounded-lg"><div className="text-xs text-slate-400">成员</div><div className="font-bold text-slate-700 truncate">{msg.data.targetUserName}</div></div>
+                                                {msg.data.details && (
+                                                     <div className="col-span-2 bg-slate-50 p-2 rounded-lg text-xs text-slate-600 font-bold">{msg.data.details}</div>
+                                                )}
                                                 {msg.data.recurrence && msg.data.recurrence !== 'once' && (
                                                      <div className="col-span-2 bg-purple-50 p-2 rounded-lg flex items-center gap-2 text-purple-700 font-bold text-xs">
                                                         <i className="fa-solid fa-rotate-right"></i>
-                                                        {msg.data.recurrence}
+                                                        {describeRecurrence(msg.data)}
                                                      </div>
                                                 )}
                                             </div>
                                         </div>
                                     )}
+                                    {msg.type === 'reminder-list' && msg.data && (
+                                        <div className={`w-full bg-white rounded-3xl p-3 shadow-lg border-l-8 ${msg.data.done ? 'border-green-500' : 'border-blue-400'} space-y-1`}>
+                                            {msg.data.lines.map((line: string, i: number) => (
+                                                <div key={i} className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                                                    <i className={`fa-solid ${msg.data.done ? 'fa-circle-check text-green-500' : 'fa-bell text-blue-400'} text-xs`}></i>{line}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {msg.type === 'batch-card' && msg.data && (
+                                        <div className="w-full bg-white rounded-3xl p-3 shadow-lg border-l-8 border-blue-500 space-y-2">
+                                            {(msg.data as PendingBatch).items.map((item, i) => {
+                                                const locked = msg.data.status !== 'pending';
+                                                const valid = isBatchItemValid(item);
+                                                return (
+                                                    <div key={i} className={`rounded-xl p-2 border ${item.checked ? 'border-blue-100 bg-blue-50/40' : 'border-slate-100 opacity-50'} space-y-1`}>
+                                                        <div className="flex items-center gap-2">
+                                                            <input type="checkbox" checked={item.checked} disabled={locked} onChange={(e) => updateBatchItem(msg.id, i, { checked: e.target.checked })} />
+                                                            <input type="text" value={item.data.title} disabled={locked} onChange={(e) => updateBatchItem(msg.id, i, { data: { title: e.target.value } })} className="flex-1 min-w-0 bg-transparent font-bold text-sm text-slate-800 outline-none border-b border-transparent focus:border-blue-400" />
+                                                        </div>
+                                                        <div className="grid grid-cols-3 gap-1 pl-6">
+                                                            <select value={item.data.userId} disabled={locked} onChange={(e) => updateBatchItem(msg.id, i, { data: { userId: e.target.value } })} className={`px-1 py-0.5 rounded border text-xs bg-white ${item.data.userId ? 'border-slate-200' : 'border-red-300 text-red-500'}`}>
+                                                                <option value="">提醒谁？</option>
+                                                                {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                                                            </select>
+                                                            <input type="date" value={item.data.date} disabled={locked} onChange={(e) => updateBatchItem(msg.id, i, { data: { date: e.target.value } })} className="px-1 py-0.5 rounded border border-slate-200 text-xs bg-white" />
+                                                            <input type="text" value={item.timesText} disabled={locked} onChange={(e) => updateBatchItem(msg.id, i, { timesText: e.target.value })} placeholder="08:00 20:00" className={`px-1 py-0.5 rounded border text-xs font-mono bg-white ${parseTimesText(item.timesText).length > 0 ? 'border-slate-200' : 'border-red-300'}`} />
+                                                        </div>
+                                                        {(item.data.recurrence !== 'once' || item.data.fields) && (
+                                                            <div className="pl-6 text-[10px] text-slate-500">
+                                                                {[item.data.recurrence !== 'once' ? describeRecurrence(item.data) : '', describeFields(item.data, reminderTypes.find(t => t.id === item.data.type))].filter(Boolean).join(' · ')}
+                                                            </div>
+                                                        )}
+                                                        {item.note && !locked && <div className="pl-6 text-[10px] text-amber-600">{item.note}</div>}
+                                                        {item.checked && !valid && !locked && <div className="pl-6 text-[10px] text-red-500">请补全成员、日期和时间</div>}
+                                                    </div>
+                                                );
+                                            })}
+                                            {msg.data.status === 'pending' ? (
+                                                <div className="flex gap-2 pt-1">
+                                                    <button onClick={() => resolveBatch(msg.id, false)} className="flex-1 py-2 rounded-xl bg-slate-100 text-slate-600 text-sm font-bold">全部取消</button>
+                                                    <button
+                                                        onClick={() => resolveBatch(msg.id, true)}
+                                                        disabled={!(msg.data as PendingBatch).items.some(item => item.checked && isBatchItemValid(item))}
+                                                        className="flex-1 py-2 rounded-xl bg-blue-600 text-white text-sm font-bold disabled:opacity-40"
+                                                    >
+                                                        添加选中的 {(msg.data as PendingBatch).items.filter(item => item.checked && isBatchItemValid(item)).length} 个
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <div className="text-xs font-bold text-slate-400">{msg.data.status === 'applied' ? '已添加' : '已取消'}</div>
+                                            )}
+                                        </div>
+                                    )}
+                                    {msg.type === 'confirm-card' && msg.data && (
+                                        <div className={`w-full bg-white rounded-3xl p-3 shadow-lg border-l-8 ${msg.data.kind === 'delete' ? 'border-red-500' : 'border-amber-500'} space-y-2`}>
+                                            {msg.data.lines.map((line: string, i: number) => (
+                                                <div key={i} className={`text-sm font-bold text-slate-700 ${msg.data.after || (msg.data.kind === 'delete' && msg.data.status === 'applied') ? 'line-through decoration-slate-400' : ''}`}>{line}</div>
+                                            ))}
+                                            {msg.data.after && (
+                                                <div className="text-sm font-bold text-amber-700"><i className="fa-solid fa-arrow-right mr-1"></i>{msg.data.after}</div>
+                                            )}
+                                            {msg.data.status === 'pending' ? (
+                                                <div className="flex gap-2 pt-1">
+                                                    <button onClick={() => resolveChange(msg.id, false)} className="flex-1 py-2 rounded-xl bg-slate-100 text-slate-600 text-sm font-bold">取消</button>
+                                                    <button onClick={() => resolveChange(msg.id, true)} className={`flex-1 py-2 rounded-xl text-white text-sm font-bold ${msg.data.kind === 'delete' ? 'bg-red-500' : 'bg-amber-500'}`}>
+                                                        {msg.data.kind === 'delete' ? '删除' : '修改'}
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <div className="text-xs font-bold text-slate-400">{msg.data.status === 'applied' ? (msg.data.kind === 'delete' ? '已删除' : '已修改') : '已取消'}</div>
+                                            )}
+                                        </div>
+                                    )}
+                                    {msg.provider && <div className="text-[10px] text-slate-400 pl-1">{msg.provider}</div>}
                                 </div>
                             </div>
                         ))}
@@ -1,5 +1,5 @@
 
-import { User, ReminderTypeDefinition } from './types';
+import { User, ReminderTypeDefinition, QuietHours } from './types';
 
 export const MOCK_USERS: User[] = [
   { id: 'u1', name: '爷爷', avatar: '👴', color: 'bg-blue-500' },
@@ -10,11 +10,75 @@ export const MOCK_USERS: User[] = [
 ];
 
 export const DEFAULT_REMINDER_TYPES: ReminderTypeDefinition[] = [
-    { id: 'medication', label: '用药', icon: 'capsules', color: 'bg-red-500' },
-    { id: 'activity', label: '活动', icon: 'person-running', color: 'bg-yellow-500' },
-    { id: 'general', label: '常规', icon: 'note-sticky', color: 'bg-blue-500' },
+    {
+        id: 'medication', label: '用药', icon: 'capsules', color: 'bg-red-500', graceMinutes: 60, critical: true,
+        fields: [
+            { id: 'dose', label: '剂量', kind: 'text' },
+            { id: 'meal', label: '饭前饭后', kind: 'select', options: ['饭前', '饭后', '随餐', '空腹'] }
+        ]
+    },
+    {
+        id: 'activity', label: '活动', icon: 'person-running', color: 'bg-yellow-500', graceMinutes: 30,
+        fields: [{ id: 'duration', label: '时长', kind: 'number', unit: '分钟' }]
+    },
+    { id: 'general', label: '常规', icon: 'note-sticky', color: 'bg-blue-500', graceMinutes: 30 },
+    {
+        id: 'appointment', label: '就诊', icon: 'hospital', color: 'bg-cyan-500', graceMinutes: 30,
+        fields: [
+            { id: 'location', label: '地点', kind: 'text' },
+            { id: 'doctor', label: '医生', kind: 'text' }
+        ]
+    },
+    { id: 'glucose', label: '测血糖', icon: 'droplet', color: 'bg-pink-500', graceMinutes: 30, measurement: 'glucose' },
+    { id: 'blood-pressure', label: '量血压', icon: 'heart-pulse', color: 'bg-purple-500', graceMinutes: 30, measurement: 'bloodPressure' },
 ];
 
+// Used for types created before grace windows existed
+export const DEFAULT_GRACE_MINUTES = 30;
+
+// Auto-snoozes before an alarm is escalated, for types that enable escalation
+export const DEFAULT_MAX_AUTO_SNOOZES = 3;
+
+// Alarm volume of critical types during quiet hours, as a fraction of the normal volume
+export const REDUCED_ALARM_VOLUME = 0.3;
+
+// Suggested window when a member first turns quiet hours on
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '07:00' };
+
+// Reminders of this type can draw from a medication stock
+export const MEDICATION_TYPE_ID = 'medication';
+
+// Refill warning threshold for new medications, in days of supply left
+export const DEFAULT_REFILL_DAYS = 7;
+
+// Time of day automatic "买药" reminders are set for
+export const REFILL_REMINDER_TIME = '18:00';
+
+// An assistant conversation ends after this much silence, the next message starts without earlier context
+export const CONVERSATION_TIMEOUT_MINUTES = 5;
+
+// Earlier messages sent along with a new one, oldest dropped first
+export const MAX_CONVERSATION_TURNS = 12;
+
+// Assistant providers: retries of a transient failure (timeout, 429, 5xx) before moving on, with doubling delays
+export const AI_RETRY_ATTEMPTS = 2;
+export const AI_RETRY_BASE_DELAY_MS = 1000;
+
+// A provider failing this many requests in a row is skipped for the cooldown, then tried again
+export const AI_CIRCUIT_FAILURE_THRESHOLD = 3;
+export const AI_CIRCUIT_COOLDOWN_MINUTES = 5;
+
+// Daily briefing. Placeholders: {greeting} {name} {count} {items}. A day without reminders uses the empty template.
+export const DEFAULT_BRIEFING_TIME = '07:30';
+export const DEFAULT_BRIEFING_TEMPLATE = '{greeting}{name}，今天有{count}件事：{items}。';
+export const EMPTY_BRIEFING_TEMPLATE = '{greeting}{name}，今天没有安排，好好休息。';
+
+// A briefing missed at its time (device asleep, alarm showing) is still given within this window
+export const BRIEFING_WINDOW_MINUTES = 60;
+
+// Pre-alert offsets offered in the pickers, in minutes before the slot
+export const LEAD_TIME_OPTIONS = [10, 30, 60, 120, 1440, 2880];
+
 export const getTodayString = () => {
   const now = new Date();
   const year = now.getFullYear();
@@ -25,7 +89,7 @@ export const getTodayString = () => {
 
 export const INITIAL_REMINDERS: any[] = [
   { id: 'r1', userId: 'u1', title: '服用降压药', time: '08:00', date: getTodayString(), isCompleted: false, type: 'medication' },
-  { id: 'r2', userId: 'u2', title: '测量血糖', time: '09:00', date: getTodayString(), isCompleted: true, type: 'medication' },
+  { id: 'r2', userId: 'u2', title: '测量血糖', time: '09:00', date: getTodayString(), isCompleted: true, type: 'glucose' },
 ];
 
 // Simple digital alarm beep sound (Base64 MP3) to ensure audio plays even if TTS fails or is quiet
@@ -0,0 +1,40 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+
+// Minimal OpenAI-compatible endpoint that replays recorded answers, so the harness runs without a key or network.
+// Answers are looked up by the last user message, i.e. the utterance of the case.
+
+export type Recordings = { [utterance: string]: string }; // Raw message content as the model returned it
+
+export const startMockServer = (recordings: Recordings, port = 0): Promise<{ server: Server; baseUrl: string }> => {
+    const server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const send = (status: number, payload: unknown) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(payload));
+            };
+            if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) return send(404, { error: { message: 'Not found' } });
+
+            let utterance = '';
+            try {
+                const messages: { role: string; content: string }[] = JSON.parse(body).messages || [];
+                utterance = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+            } catch {
+                return send(400, { error: { message: 'Invalid JSON body' } });
+            }
+            const content = recordings[utterance];
+            if (content === undefined) return send(404, { error: { message: `No recording for "${utterance}"` } });
+            send(200, { choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] });
+        });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            const { port: bound } = server.address() as AddressInfo;
+            resolve({ server, baseUrl: `http://127.0.0.1:${bound}/v1` });
+        });
+    });
+};
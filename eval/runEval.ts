@@ -0,0 +1,121 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { AIResponse, ConversationTurn, ReminderSummary } from "../types";
+import { DEFAULT_REMINDER_TYPES } from "../constants";
+import { parseReminderWithGemini } from "../services/geminiService";
+import { startMockServer, Recordings } from "./mockServer";
+import { scoreCase, addToTotals, FieldTotals } from "./scoring";
+
+// Runs the golden utterances through parseReminderWithGemini against an OpenAI-compatible endpoint and
+// reports per-field accuracy. See the README for usage. Exits with 1 when any case fails.
+//
+//   --mock                 replay eval/recordings.json from a local mock server (default without --base-url)
+//   --base-url <url>       endpoint to test, e.g. https://api.deepseek.com or http://localhost:11434/v1
+//   --model <name>         model name sent to the endpoint
+//   --api-key <key>        defaults to $EVAL_API_KEY
+//   --record <file>        save the answers in the recordings format, to replay them later with --mock
+//   --only <text>          run the cases whose id contains this
+//   --fixtures <file>      defaults to eval/fixtures.json
+//   --verbose              keep the service's own request logging
+
+interface EvalCase {
+    id: string;
+    text: string;
+    currentUser: string;
+    today: string;
+    history?: ConversationTurn[];
+    withReminders?: boolean; // Send the fixture file's reminder list as existing reminders
+    expected: AIResponse;
+}
+
+interface FixtureFile {
+    family: string[];
+    reminders: ReminderSummary[];
+    cases: EvalCase[];
+}
+
+const DEFAULT_FIXTURES = 'eval/fixtures.json';
+const DEFAULT_RECORDINGS = 'eval/recordings.json';
+
+const readArgs = (argv: string[]) => {
+    const args: { [name: string]: string | true } = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith('--')) continue;
+        const name = argv[i].slice(2);
+        const next = argv[i + 1];
+        args[name] = next !== undefined && !next.startsWith('--') ? (i++, next) : true;
+    }
+    return args;
+};
+
+const percent = (correct: number, total: number) => total === 0 ? '-' : `${(correct / total * 100).toFixed(1)}%`;
+
+const formatValue = (value: unknown) => value === undefined ? '(none)' : JSON.stringify(value);
+
+// The report goes through print, console.log is the service's request logging
+const print = console.log.bind(console);
+
+const main = async () => {
+    const args = readArgs(process.argv.slice(2));
+    if (!args.verbose) console.log = console.error = () => {};
+    const fixtures: FixtureFile = JSON.parse(readFileSync(String(args.fixtures || DEFAULT_FIXTURES), 'utf8'));
+    const cases = fixtures.cases.filter(c => !args.only || c.id.includes(String(args.only)));
+
+    const useMock = !!args.mock || !args['base-url'];
+    const mock = useMock ? await startMockServer(JSON.parse(readFileSync(DEFAULT_RECORDINGS, 'utf8'))) : null;
+    const baseUrl = mock ? mock.baseUrl : String(args['base-url']);
+    const config = {
+        apiKey: String(args['api-key'] || process.env.EVAL_API_KEY || 'eval'),
+        baseUrl,
+        model: String(args.model || process.env.EVAL_MODEL || (useMock ? 'recorded' : ''))
+    };
+    if (!config.model) throw new Error('--model (or $EVAL_MODEL) is required with --base-url');
+    print(`Evaluating ${cases.length} cases against ${useMock ? 'recorded answers' : baseUrl} (${config.model})\n`);
+
+    const totals: FieldTotals = {};
+    const recordings: Recordings = {};
+    let passed = 0;
+
+    for (const c of cases) {
+        let actual: AIResponse | null = null;
+        let error = '';
+        try {
+            // 'custom' is the plain OpenAI-compatible path, no provider specific defaults
+            actual = await parseReminderWithGemini(c.text, c.currentUser, fixtures.family, c.today, config, 'custom', {
+                reminderTypes: DEFAULT_REMINDER_TYPES,
+                history: c.history,
+                reminders: c.withReminders ? fixtures.reminders : undefined
+            });
+            if (actual) recordings[c.text] = JSON.stringify(actual);
+        } catch (e: any) {
+            error = e?.message || String(e);
+        }
+        const results = scoreCase(c.expected, actual);
+        addToTotals(totals, results);
+
+        const failures = results.filter(r => !r.ok);
+        if (!error && failures.length === 0) passed++;
+        print(`${!error && failures.length === 0 ? 'PASS' : 'FAIL'}  ${c.id}  "${c.text}"`);
+        if (error) print(`      error: ${error}`);
+        failures.forEach(f => print(`      ${f.field}: expected ${formatValue(f.expected)}, got ${formatValue(f.actual)}`));
+    }
+
+    print('\nField accuracy:');
+    const width = Math.max(...Object.keys(totals).map(k => k.length));
+    Object.entries(totals).forEach(([field, t]) => {
+        print(`  ${field.padEnd(width)}  ${percent(t.correct, t.total).padStart(6)}  (${t.correct}/${t.total})`);
+    });
+    print(`\nCases passed: ${passed}/${cases.length} (${percent(passed, cases.length)})`);
+
+    if (typeof args.record === 'string') {
+        writeFileSync(args.record, JSON.stringify(recordings, null, 2) + '\n');
+        print(`Recorded ${Object.keys(recordings).length} answers to ${args.record}`);
+    }
+
+    mock?.server.close();
+    process.exitCode = passed === cases.length ? 0 : 1;
+};
+
+main().catch(e => {
+    print(e);
+    process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+import { AIResponse, ParsedReminder, ReminderTarget } from "../types";
+import { getParsedReminders } from "../services/assistantActions";
+
+// Compares a model answer with the expected one, field by field. Only fields written in the fixture are
+// scored, so a case about recurrence doesn't fail on a title the model worded differently.
+
+export interface FieldResult {
+    field: string; // "action", "reminders.time", "targets"...
+    ok: boolean;
+    expected: unknown;
+    actual: unknown;
+}
+
+export type FieldTotals = { [field: string]: { correct: number; total: number } };
+
+const sortedStrings = (values: unknown): string => JSON.stringify([...(Array.isArray(values) ? values : [])].map(String).sort());
+
+// Expected keys must be present with equal values, arrays compared as sets. Extra keys in the answer are fine.
+const matchesSubset = (expected: any, actual: any): boolean => {
+    if (Array.isArray(expected)) return sortedStrings(expected) === sortedStrings(actual);
+    if (expected && typeof expected === 'object') {
+        return !!actual && typeof actual === 'object' && Object.keys(expected).every(k => matchesSubset(expected[k], actual[k]));
+    }
+    return expected === actual;
+};
+
+// Titles are free text: the expected keyword has to appear in the model's title ("降压药" in "吃降压药")
+const matchesTitle = (expected: string, actual: unknown): boolean => typeof actual === 'string' && actual.includes(expected);
+
+const compareReminder = (expected: ParsedReminder, actual: ParsedReminder | undefined): FieldResult[] => {
+    return (Object.keys(expected) as (keyof ParsedReminder)[]).map(key => {
+        const want = expected[key];
+        const got = actual?.[key] ?? (key === 'recurrence' && actual ? 'once' : undefined);
+        let ok: boolean;
+        if (key === 'title') ok = matchesTitle(String(want), got);
+        else if (key === 'times') ok = sortedStrings(want) === sortedStrings(got);
+        else if (key === 'fields') ok = (want as ParsedReminder['fields'] || []).every(f => (actual?.fields || []).some(a => a.name === f.name && a.value === f.value));
+        else ok = matchesSubset(want, got);
+        return { field: `reminders.${key}`, ok, expected: want, actual: got };
+    });
+};
+
+// Pairs expected items with the answer's by member and title, the model may list them in any order
+const pairReminders = (expected: ParsedReminder[], actual: ParsedReminder[]): (ParsedReminder | undefined)[] => {
+    const left = [...actual];
+    return expected.map(e => {
+        const index = left.findIndex(a => (!e.targetUser || a.targetUser === e.targetUser) && (!e.title || matchesTitle(e.title, a.title)));
+        const pick = index !== -1 ? index : left.findIndex(a => !e.targetUser || a.targetUser === e.targetUser);
+        return pick === -1 ? undefined : left.splice(pick, 1)[0];
+    });
+};
+
+const targetKey = (t: ReminderTarget) => `${t.ref}${t.time ? '@' + t.time : ''}`;
+
+export const scoreCase = (expected: AIResponse, actual: AIResponse | null): FieldResult[] => {
+    const results: FieldResult[] = [{ field: 'action', ok: actual?.action === expected.action, expected: expected.action, actual: actual?.action }];
+
+    const expectedItems = getParsedReminders(expected);
+    if (expectedItems.length > 0) {
+        const actualItems = actual ? getParsedReminders(actual) : [];
+        results.push({ field: 'reminders.count', ok: actualItems.length === expectedItems.length, expected: expectedItems.length, actual: actualItems.length });
+        const paired = pairReminders(expectedItems, actualItems);
+        expectedItems.forEach((item, i) => results.push(...compareReminder(item, paired[i])));
+    }
+
+    if (expected.targets) {
+        // A slot is only checked when the fixture names one
+        const want = expected.targets.map(targetKey);
+        const got = (actual?.targets || []).map(t => expected.targets!.some(e => e.ref === t.ref && !e.time) ? t.ref : targetKey(t));
+        results.push({ field: 'targets', ok: sortedStrings(want) === sortedStrings(got), expected: want, actual: got });
+    }
+
+    if (expected.changes) {
+        Object.entries(expected.changes).forEach(([key, value]) => {
+            const got = (actual?.changes as any)?.[key];
+            results.push({ field: `changes.${key}`, ok: value === got, expected: value, actual: got });
+        });
+    }
+    return results;
+};
+
+export const addToTotals = (totals: FieldTotals, results: FieldResult[]) => {
+    results.forEach(r => {
+        const entry = totals[r.field] || (totals[r.field] = { correct: 0, total: 0 });
+        entry.total++;
+        if (r.ok) entry.correct++;
+    });
+};
@@ -0,0 +1,159 @@
+// Service worker: caches the app shell for offline use and shows alarm notifications while the page is closed.
+// The page posts the upcoming alarms as { type: 'schedule', notifications } whenever reminders change.
+// Lives in public/ so Vite serves and emits it unbundled at the site root, which is also its scope.
+
+const SHELL_CACHE = 'familyminder-shell-v2';
+const RUNTIME_CACHE = 'familyminder-runtime-v1'; // Built assets and CDN files, trimmed to RUNTIME_CACHE_LIMIT
+const SCHEDULE_CACHE = 'familyminder-schedule';
+const SCHEDULE_URL = '/__notification-schedule';
+const APP_SHELL = ['/', '/index.html', '/manifest.json'];
+
+// Third-party scripts and styles index.html loads, cached so the shell also works offline
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdnjs.cloudflare.com', 'aistudiocdn.com'];
+
+// Each build adds new hashed files under /assets/, the oldest entries are dropped past this
+const RUNTIME_CACHE_LIMIT = 80;
+
+// Alarms found more than this late (the worker was asleep) are dropped rather than shown
+const STALE_MS = 3600000;
+const MAX_TIMER_DELAY = 2147483647;
+
+let fireTimer = null;
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(APP_SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(k => ![SHELL_CACHE, RUNTIME_CACHE, SCHEDULE_CACHE].includes(k)).map(k => caches.delete(k))))
+            .then(() => self.clients.claim())
+            .then(fireDue)
+    );
+});
+
+// Where a response is kept, or null when it isn't cached at all. Pages are kept as the shell's index.html.
+const cacheFor = (request, url) => {
+    if (request.mode === 'navigate') return { cacheName: SHELL_CACHE, key: '/index.html' };
+    if (url.origin === self.location.origin) {
+        if (APP_SHELL.includes(url.pathname)) return { cacheName: SHELL_CACHE, key: url.pathname };
+        if (url.pathname.startsWith('/assets/')) return { cacheName: RUNTIME_CACHE, key: request };
+        return null;
+    }
+    return CDN_HOSTS.includes(url.hostname) ? { cacheName: RUNTIME_CACHE, key: request } : null;
+};
+
+// Cache keys come back in insertion order, so the oldest go first
+const trimCache = async (cacheName, limit) => {
+    const cache = await caches.open(cacheName);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map(k => cache.delete(k)));
+};
+
+// Network first so updates show up straight away, falling back to the cache when offline
+self.addEventListener('fetch', event => {
+    const request = event.request;
+    if (request.method !== 'GET') return;
+    const target = cacheFor(request, new URL(request.url));
+    if (!target) return;
+
+    event.respondWith(
+        fetch(request)
+            .then(response => {
+                if (response.ok || response.type === 'opaque') {
+                    const copy = response.clone();
+                    event.waitUntil(caches.open(target.cacheName)
+                        .then(cache => cache.put(target.key, copy))
+                        .then(() => target.cacheName === RUNTIME_CACHE && trimCache(RUNTIME_CACHE, RUNTIME_CACHE_LIMIT)));
+                }
+                return response;
+            })
+            .catch(() => caches.match(target.key).then(hit => hit || (request.mode === 'navigate' ? caches.match('/index.html') : Response.error())))
+    );
+});
+
+const loadSchedule = async () => {
+    const cache = await caches.open(SCHEDULE_CACHE);
+    const response = await cache.match(SCHEDULE_URL);
+    return response ? response.json() : [];
+};
+
+const saveSchedule = async (notifications) => {
+    const cache = await caches.open(SCHEDULE_CACHE);
+    await cache.put(SCHEDULE_URL, new Response(JSON.stringify(notifications), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const notificationOptions = (n) => ({
+    body: n.body,
+    tag: n.tag,
+    renotify: true,
+    requireInteraction: true,
+    silent: n.silent,
+    data: { reminderId: n.reminderId, time: n.time }
+});
+
+const supportsTriggers = () => typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+// An open, visible page rings the alarm itself
+const hasVisibleClient = async () => {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    return windows.some(w => w.visibilityState === 'visible');
+};
+
+// Without Notification Triggers the worker shows whatever is due each time it wakes up, and keeps a timer
+// for the next alarm for as long as the browser lets it live
+async function fireDue() {
+    if (fireTimer) clearTimeout(fireTimer);
+    if (Notification.permission !== 'granted' || supportsTriggers()) return;
+
+    const now = Date.now();
+    const schedule = await loadSchedule();
+    const due = schedule.filter(n => n.at <= now);
+    const rest = schedule.filter(n => n.at > now);
+
+    if (due.length > 0) {
+        if (!(await hasVisibleClient())) {
+            await Promise.all(due.filter(n => now - n.at < STALE_MS).map(n => self.registration.showNotification(n.title, notificationOptions(n))));
+        }
+        await saveSchedule(rest);
+    }
+    if (rest.length > 0) fireTimer = setTimeout(fireDue, Math.min(rest[0].at - now, MAX_TIMER_DELAY));
+}
+
+const applySchedule = async (notifications) => {
+    await saveSchedule(notifications);
+    if (!supportsTriggers()) return fireDue();
+
+    // The browser holds triggered notifications itself, so the previous batch is cancelled and re-posted
+    const pending = await self.registration.getNotifications({ includeTriggered: true });
+    pending.forEach(n => { if (n.showTrigger) n.close(); });
+    await Promise.all(notifications.map(n => self.registration.showNotification(n.title, {
+        ...notificationOptions(n),
+        showTrigger: new TimestampTrigger(n.at)
+    })));
+};
+
+self.addEventListener('message', event => {
+    if (event.data?.type === 'schedule') event.waitUntil(applySchedule(event.data.notifications || []));
+});
+
+self.addEventListener('periodicsync', event => {
+    if (event.tag === 'alarm-check') event.waitUntil(fireDue());
+});
+
+// Opens the alarm in a running window if there is one, otherwise starts the app on it
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    const { reminderId, time } = event.notification.data || {};
+    if (!reminderId) return;
+
+    event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+        const client = windows[0];
+        if (client) {
+            client.postMessage({ type: 'open-alarm', reminderId, time });
+            return client.focus();
+        }
+        return self.clients.openWindow(`/?alarm=${encodeURIComponent(reminderId)}&time=${encodeURIComponent(time || '')}`);
+    }));
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, User } from '../types';
+import { buildReminderPatch } from './assistantActions';
+import { applyReminderEdit } from './scheduler';
+
+const users: User[] = [
+    { id: 'u1', name: '爷爷', avatar: '👴', color: 'bg-blue-500' },
+    { id: 'u2', name: '奶奶', avatar: '👵', color: 'bg-emerald-500' }
+];
+
+// Rang this morning, the noon slot was skipped and the alarm went to the caregiver
+const escalated: Reminder = {
+    id: 'r1', userId: 'u1', title: '吃降压药', time: '08:00', times: ['08:00', '12:00'], date: '2026-01-15',
+    isCompleted: false, type: 'medication', recurrence: 'daily', occurrenceIndex: 3,
+    remindedAt: { '08:00': 1 }, skippedTimes: ['12:00'], autoSnoozeCount: 3,
+    escalatedAt: 2, escalatedTime: '08:00', escalatedTo: 'u2'
+};
+
+// What App does with a confirmed update
+const saveUpdate = (reminder: Reminder, patch: Partial<Reminder>) => applyReminderEdit(reminder, { ...reminder, ...patch });
+
+describe('buildReminderPatch', () => {
+    it('holds only the changed form fields', () => {
+        expect(buildReminderPatch(escalated, '08:00', { time: '09:00' }, users)).toEqual({
+            times: ['09:00', '12:00'], time: '09:00', completedTimes: undefined
+        });
+        expect(buildReminderPatch(escalated, undefined, { title: '吃降压药' }, users)).toBeNull();
+    });
+
+    it('starts a moved reminder over, escalation and skipped slots included', () => {
+        const moved = saveUpdate(escalated, buildReminderPatch(escalated, undefined, { date: '2026-01-16' }, users)!);
+
+        expect(moved).toMatchObject({ date: '2026-01-16', occurrenceIndex: 3 });
+        expect(moved.skippedTimes).toBeUndefined();
+        expect(moved.remindedAt).toBeUndefined();
+        expect(moved.autoSnoozeCount).toBeUndefined();
+        expect(moved.escalatedAt).toBeUndefined();
+        expect(moved.escalatedTo).toBeUndefined();
+    });
+
+    it('keeps the ringing state when only the title or member changes', () => {
+        const renamed = saveUpdate(escalated, buildReminderPatch(escalated, undefined, { title: '吃降糖药', targetUser: '奶奶' }, users)!);
+
+        expect(renamed).toMatchObject({ title: '吃降糖药', userId: 'u2', skippedTimes: ['12:00'], escalatedAt: 2, remindedAt: { '08:00': 1 } });
+    });
+});
@@ -0,0 +1,155 @@
+import { AIResponse, ParsedReminder, Reminder, ReminderChanges, ReminderSummary, ReminderTarget, ReminderTypeDefinition, User } from "../types";
+import { getReminderTimes, normalizeTimes, normalizeLeadTimes } from "./reminderSlots";
+import { isRecurring, describeRecurrence, normalizeRecurrenceRule, isLunarRule, getFirstOccurrenceOnOrAfter } from "./recurrence";
+import { normalizeParsedFields } from "./customFields";
+
+// Window of dated reminders the assistant is told about. Recurring series are included regardless, by their newest instance.
+const SUMMARY_PAST_DAYS = 1;
+const SUMMARY_FUTURE_DAYS = 14;
+const MAX_SUMMARY_LINES = 80;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const shiftDate = (date: string, days: number): string => {
+    const [y, m, d] = date.split('-').map(Number);
+    const shifted = new Date(y, m - 1, d + days);
+    return `${shifted.getFullYear()}-${String(shifted.getMonth() + 1).padStart(2, '0')}-${String(shifted.getDate()).padStart(2, '0')}`;
+};
+
+// Exact name first, then a name contained in what the model wrote ("爷爷的" -> 爷爷)
+export const findMemberByName = (users: User[], name?: string): User | undefined => {
+    if (!name) return undefined;
+    return users.find(u => u.name === name) || users.find(u => name.includes(u.name));
+};
+
+// Items of a create_reminder answer, whether the model sent the list or a single "reminder"
+export const getParsedReminders = (response: AIResponse): ParsedReminder[] => {
+    const items = Array.isArray(response.reminders) && response.reminders.length > 0
+        ? response.reminders
+        : response.reminder ? [response.reminder] : [];
+    return items.filter(r => r && typeof r.title === 'string' && r.title.trim());
+};
+
+// Reminder fields for one parsed item. userId is '' when the model named nobody and the whole family is in view.
+export const buildReminderFromParsed = (
+    parsed: ParsedReminder,
+    users: User[],
+    viewUserId: string,
+    types: ReminderTypeDefinition[],
+    today: string
+): Omit<Reminder, 'id'> => {
+    const member = findMemberByName(users, parsed.targetUser);
+    const times = normalizeTimes([parsed.time, ...(parsed.times || [])]);
+    const rule = normalizeRecurrenceRule(parsed.rule);
+    // The model knows neither lunar conversions nor the holiday calendar, so those dates come from the rule
+    const date = rule && (isLunarRule(rule) || rule.dayFilter)
+        ? getFirstOccurrenceOnOrAfter(today, rule) || parsed.date
+        : parsed.date;
+
+    return {
+        title: parsed.title.trim(),
+        time: times[0] || parsed.time,
+        times: times.length > 1 ? times : undefined,
+        date: DATE_PATTERN.test(date || '') ? date : today,
+        userId: member?.id || (viewUserId === 'all' ? '' : viewUserId),
+        type: parsed.type,
+        recurrence: rule ? rule.freq : (parsed.recurrence || 'once'),
+        rule,
+        leadTimes: normalizeLeadTimes(parsed.leadTimes),
+        fields: normalizeParsedFields(parsed.fields, types.find(t => t.id === parsed.type)),
+        isCompleted: false
+    };
+};
+
+// Compact list of the reminders worth asking about, with refs ("r1", "r2"...) to keep the prompt short
+export const buildReminderSummary = (
+    reminders: Reminder[],
+    users: User[],
+    today: string
+): { summary: ReminderSummary[]; idsByRef: { [ref: string]: string } } => {
+    const from = shiftDate(today, -SUMMARY_PAST_DAYS);
+    const to = shiftDate(today, SUMMARY_FUTURE_DAYS);
+
+    const relevant = reminders
+        .filter(r => (r.date >= from && r.date <= to) || (isRecurring(r) && !r.hasSpawnedNext))
+        .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+        .slice(0, MAX_SUMMARY_LINES);
+
+    const idsByRef: { [ref: string]: string } = {};
+    const summary = relevant.map((r, i) => {
+        const ref = `r${i + 1}`;
+        idsByRef[ref] = r.id;
+        const times = getReminderTimes(r);
+        return {
+            ref,
+            member: users.find(u => u.id === r.userId)?.name || '家人',
+            title: r.title,
+            date: r.date,
+            times,
+            type: r.type,
+            repeat: isRecurring(r) ? describeRecurrence(r) : undefined,
+            done: r.isCompleted ? times : (r.completedTimes || [])
+        };
+    });
+    return { summary, idsByRef };
+};
+
+// Targets that still point at a reminder, in the order the model gave them. Unknown refs are dropped.
+export const resolveTargets = (
+    targets: ReminderTarget[] | undefined,
+    idsByRef: { [ref: string]: string },
+    reminders: Reminder[]
+): { reminder: Reminder; time?: string }[] => {
+    const resolved: { reminder: Reminder; time?: string }[] = [];
+    (targets || []).forEach(t => {
+        const reminder = reminders.find(r => r.id === idsByRef[String(t?.ref)]);
+        if (!reminder || resolved.some(x => x.reminder.id === reminder.id && x.time === t.time)) return;
+        const time = t.time && getReminderTimes(reminder).includes(t.time) ? t.time : undefined;
+        resolved.push({ reminder, time });
+    });
+    return resolved;
+};
+
+// Turns the model's changes into a reminder patch, or null when none of them is usable. The patch only holds
+// the form fields, it is saved through applyReminderEdit like a manual edit.
+export const buildReminderPatch = (
+    reminder: Reminder,
+    slot: string | undefined,
+    changes: ReminderChanges | undefined,
+    users: User[]
+): Partial<Reminder> | null => {
+    const patch: Partial<Reminder> = {};
+
+    const title = changes?.title?.trim();
+    if (title && title !== reminder.title) patch.title = title;
+
+    const member = findMemberByName(users, changes?.targetUser);
+    if (member && member.id !== reminder.userId) patch.userId = member.id;
+
+    if (changes?.date && DATE_PATTERN.test(changes.date) && changes.date !== reminder.date) patch.date = changes.date;
+
+    const slots = getReminderTimes(reminder);
+    if (changes?.time && TIME_PATTERN.test(changes.time)) {
+        const moved = slot || slots[0];
+        if (changes.time !== moved) {
+            if (slots.length > 1) {
+                const times = normalizeTimes(slots.map(t => t === moved ? changes.time! : t));
+                patch.times = times.length > 1 ? times : undefined;
+                patch.time = times[0];
+                patch.completedTimes = reminder.completedTimes?.filter(t => t !== moved);
+            } else {
+                patch.time = changes.time;
+            }
+        }
+    }
+
+    return Object.keys(patch).length === 0 ? null : patch;
+};
+
+// "爷爷 · 10-20 08:00 吃降压药" for confirmation and list cards
+export const describeReminderLine = (reminder: Pick<Reminder, 'userId' | 'date' | 'time' | 'times' | 'title'>, users: User[], slot?: string): string => {
+    const member = users.find(u => u.id === reminder.userId)?.name || '家人';
+    const time = slot || getReminderTimes(reminder).join('/');
+    return `${member} · ${reminder.date.slice(5)} ${time} ${reminder.title}`;
+};
@@ -0,0 +1,83 @@
+// Reminder photos live in IndexedDB, localStorage is too small for images and only holds strings.
+// Reminders keep just the photo id. Backups and cloud sync carry the ids but not the images.
+
+const DB_NAME = 'familyminder';
+const DB_VERSION = 1;
+const STORE = 'attachments';
+
+// Longest side of a stored photo. Phone camera pictures are shrunk to this before saving.
+const MAX_PHOTO_SIZE = 1280;
+const PHOTO_QUALITY = 0.85;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => { dbPromise = null; reject(request.error); };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const isAttachmentStorageSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+export const saveAttachment = async (id: string, blob: Blob): Promise<void> => {
+    await run('readwrite', store => store.put(blob, id));
+};
+
+export const getAttachment = async (id: string): Promise<Blob | null> => {
+    try {
+        return (await run<Blob | undefined>('readonly', store => store.get(id))) || null;
+    } catch (e) {
+        console.warn("Attachment read failed:", e);
+        return null;
+    }
+};
+
+export const deleteAttachment = async (id: string): Promise<void> => {
+    await run('readwrite', store => store.delete(id));
+};
+
+// Deletes photos no reminder points to any more: deleted reminders, replaced photos, abandoned edits
+export const pruneAttachments = async (referencedIds: Set<string>): Promise<void> => {
+    if (!isAttachmentStorageSupported()) return;
+    try {
+        const keys = await run<IDBValidKey[]>('readonly', store => store.getAllKeys());
+        await Promise.all(keys.map(String).filter(k => !referencedIds.has(k)).map(deleteAttachment));
+    } catch (e) {
+        console.warn("Attachment cleanup failed:", e);
+    }
+};
+
+// Scales a picked image down to MAX_PHOTO_SIZE and re-encodes it as JPEG. Falls back to the original file
+// when the browser can't decode it.
+export const compressPhoto = async (file: Blob): Promise<Blob> => {
+    try {
+        const bitmap = await createImageBitmap(file);
+        const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+        return blob || file;
+    } catch {
+        return file;
+    }
+};
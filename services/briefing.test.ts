@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, User } from '../types';
+import { buildBriefingText, getBriefingItems, getDueBriefings } from './briefing';
+
+const grandpa: User = { id: 'u1', name: '爷爷', avatar: '👴', color: 'bg-blue-500', timeZone: 'Asia/Shanghai', briefingTime: '07:30' };
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('buildBriefingText', () => {
+    it('lists the open slots of the day in time order', () => {
+        const reminders: Reminder[] = [
+            { id: 'a', userId: 'u1', title: '复诊', time: '15:00', date: '2026-01-15', isCompleted: false, type: 'appointment', recurrence: 'once' },
+            { id: 'b', userId: 'u1', title: '吃降压药', time: '08:00', date: '2026-01-15', isCompleted: false, type: 'medication', recurrence: 'daily' },
+            { id: 'c', userId: 'u1', title: '散步', time: '10:00', date: '2026-01-15', isCompleted: false, type: 'activity', recurrence: 'once' },
+            { id: 'd', userId: 'u2', title: '量血压', time: '09:00', date: '2026-01-15', isCompleted: false, type: 'blood-pressure', recurrence: 'once' }
+        ];
+        const items = getBriefingItems(reminders, 'u1', '2026-01-15');
+        expect(buildBriefingText(grandpa, items, at('2026-01-15T07:30:00+08:00'))).toBe('早上好爷爷，今天有三件事：八点吃降压药，十点散步，下午三点复诊。');
+    });
+});
+
+describe('getDueBriefings', () => {
+    it('is due from the briefing time for the length of the window', () => {
+        expect(getDueBriefings([grandpa], at('2026-01-15T07:29:00+08:00'), {})).toEqual([]);
+        expect(getDueBriefings([grandpa], at('2026-01-15T07:30:00+08:00'), {})).toEqual([{ user: grandpa, date: '2026-01-15' }]);
+        expect(getDueBriefings([grandpa], at('2026-01-15T08:30:00+08:00'), {})).toEqual([]);
+    });
+
+    it('is not due again once given that day', () => {
+        expect(getDueBriefings([grandpa], at('2026-01-15T07:45:00+08:00'), { u1: '2026-01-15' })).toEqual([]);
+    });
+
+    it('catches up past midnight for a late briefing time', () => {
+        const nightOwl = { ...grandpa, briefingTime: '23:45' };
+        const afterMidnight = at('2026-01-16T00:15:00+08:00');
+
+        expect(getDueBriefings([nightOwl], afterMidnight, {})).toEqual([{ user: nightOwl, date: '2026-01-15' }]);
+        expect(getDueBriefings([nightOwl], afterMidnight, { u1: '2026-01-15' })).toEqual([]);
+    });
+
+    it('skips members without a briefing time', () => {
+        expect(getDueBriefings([{ ...grandpa, briefingTime: undefined }], at('2026-01-15T07:30:00+08:00'), {})).toEqual([]);
+    });
+});
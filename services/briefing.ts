@@ -0,0 +1,101 @@
+import { AISettings, Reminder, User } from "../types";
+import { DEFAULT_BRIEFING_TEMPLATE, EMPTY_BRIEFING_TEMPLATE, BRIEFING_WINDOW_MINUTES } from "../constants";
+import { getReminderTimes, isSlotResolved } from "./reminderSlots";
+import { formatDateInZone, formatTimeInZone, zonedTimeToTimestamp } from "./timeZone";
+import { getProviderChain, runWithFallback } from "./providerChain";
+import { rewriteBriefing } from "./geminiService";
+
+// Spoken summary of a member's day: "早上好爷爷，今天有三件事：八点吃降压药，十点散步，下午三点复诊。"
+
+export interface BriefingItem {
+    time: string; // "HH:mm"
+    title: string;
+}
+
+const DIGITS = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+// 0-99 as spoken, "两" for a lone 2 ("两点", "两件事")
+const speakNumber = (n: number, liang = false): string => {
+    if (n === 2 && liang) return '两';
+    if (n < 10) return DIGITS[n];
+    const tens = Math.floor(n / 10);
+    return `${tens === 1 ? '' : DIGITS[tens]}十${n % 10 === 0 ? '' : DIGITS[n % 10]}`;
+};
+
+// "08:00" -> "八点", "10:30" -> "十点半", "15:00" -> "下午三点", "19:05" -> "晚上七点零五分"
+export const speakTime = (time: string): string => {
+    const [h, m] = time.split(':').map(Number);
+    const period = h < 5 ? '凌晨' : h < 12 ? '' : h < 14 ? '中午' : h < 18 ? '下午' : '晚上';
+    const hour = h === 0 ? 12 : h > 12 ? h - 12 : h;
+    const minutes = m === 0 ? '' : m === 30 ? '半' : `${m < 10 ? '零' : ''}${speakNumber(m)}分`;
+    return `${period}${speakNumber(hour, true)}点${minutes}`;
+};
+
+const getGreeting = (time: string): string => {
+    if (time < '11:00') return '早上好';
+    if (time < '13:00') return '中午好';
+    if (time < '18:00') return '下午好';
+    return '晚上好';
+};
+
+// Slots of the member's reminders on `date` that are still open, in time order
+export const getBriefingItems = (reminders: Reminder[], userId: string, date: string): BriefingItem[] => {
+    return reminders
+        .filter(r => r.userId === userId && r.date === date)
+        .flatMap(r => getReminderTimes(r).filter(t => !isSlotResolved(r, t)).map(time => ({ time, title: r.title })))
+        .sort((a, b) => a.time.localeCompare(b.time));
+};
+
+export const buildBriefingText = (user: User, items: BriefingItem[], now: number, template?: string): string => {
+    const values: { [key: string]: string } = {
+        greeting: getGreeting(formatTimeInZone(now, user.timeZone)),
+        name: user.name,
+        count: speakNumber(items.length, true),
+        items: items.map(i => `${speakTime(i.time)}${i.title}`).join('，')
+    };
+    const pattern = items.length === 0 ? EMPTY_BRIEFING_TEMPLATE : (template?.trim() || DEFAULT_BRIEFING_TEMPLATE);
+    return pattern.replace(/\{(greeting|name|count|items)\}/g, (_, key) => values[key]);
+};
+
+// Today's briefing for the member, reworded by the assistant provider when enabled. The template text is
+// used whenever no provider answers, a briefing is never skipped because of the network.
+export const composeBriefing = async (
+    user: User,
+    reminders: Reminder[],
+    now: number,
+    template: string | undefined,
+    aiSettings: AISettings | null
+): Promise<string> => {
+    const items = getBriefingItems(reminders, user.id, formatDateInZone(now, user.timeZone));
+    const text = buildBriefingText(user, items, now, template);
+    const chain = aiSettings && aiSettings.activeProvider !== 'offline' ? getProviderChain(aiSettings) : [];
+    if (chain.length === 0 || items.length === 0) return text;
+    try {
+        const answer = await runWithFallback(chain, provider => rewriteBriefing(text, aiSettings!.configs[provider], provider));
+        return answer.result;
+    } catch (e) {
+        console.warn("Briefing rewording failed, using the template:", e);
+        return text;
+    }
+};
+
+// Members whose briefing time has come (in their own zone) within the last BRIEFING_WINDOW_MINUTES and who haven't
+// had that day's briefing yet. Works on instants, so a 23:30 briefing still catches up after midnight.
+export const getDueBriefings = (
+    users: User[],
+    now: number,
+    lastBriefed: { [userId: string]: string }
+): { user: User; date: string }[] => {
+    const due: { user: User; date: string }[] = [];
+    users.forEach(u => {
+        if (!u.briefingTime) return;
+        const today = formatDateInZone(now, u.timeZone);
+        const yesterday = formatDateInZone(now - 86400000, u.timeZone);
+        const date = [today, yesterday].find(d => {
+            const at = zonedTimeToTimestamp(d, u.briefingTime!, u.timeZone);
+            return now >= at && now - at < BRIEFING_WINDOW_MINUTES * 60000;
+        });
+        if (date && lastBriefed[u.id] !== date) due.push({ user: u, date });
+    });
+    return due;
+};
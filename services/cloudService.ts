@@ -2,10 +2,13 @@
 
 interface BackupData {
     users: any[];
-    reminders: any[];
+    reminders: any[]; // Photo ids only, the images stay in the device's attachment store
     voiceSettings: any;
     aiSettings: any;
     reminderTypes?: any[];
+    history?: any[];
+    medications?: any[];
+    measurements?: any[];
     version: string;
     lastUpdated: string;
 }
@@ -0,0 +1,58 @@
+import { CustomFieldDefinition, Reminder, ReminderTypeDefinition } from "../types";
+
+export const FIELD_KIND_LABELS: Record<CustomFieldDefinition['kind'], string> = {
+    text: '文字',
+    number: '数字',
+    select: '选项'
+};
+
+// Value as shown and spoken: a select option stands on its own ("饭后"), other kinds are labelled ("时长30分钟")
+export const formatFieldValue = (field: CustomFieldDefinition, value: string): string => {
+    if (field.kind === 'select') return value;
+    return `${field.label}${value}${field.kind === 'number' && field.unit ? field.unit : ''}`;
+};
+
+// Filled fields of a reminder in the type's order. Values of fields the type no longer has are left out.
+export const getFilledFields = (
+    reminder: Pick<Reminder, 'fields'>,
+    type?: ReminderTypeDefinition
+): { field: CustomFieldDefinition; value: string }[] => {
+    return (type?.fields || [])
+        .map(field => ({ field, value: reminder.fields?.[field.id]?.trim() || '' }))
+        .filter(f => f.value !== '');
+};
+
+// "2片，饭后" style summary for the alarm announcement and cards
+export const describeFields = (reminder: Pick<Reminder, 'fields'>, type?: ReminderTypeDefinition): string => {
+    return getFilledFields(reminder, type).map(f => formatFieldValue(f.field, f.value)).join('，');
+};
+
+// Keeps one field value if it fits the definition, returns '' otherwise
+export const normalizeFieldValue = (field: CustomFieldDefinition, raw: unknown): string => {
+    const value = String(raw ?? '').trim();
+    if (!value) return '';
+    if (field.kind === 'number') {
+        const n = parseFloat(value);
+        return Number.isFinite(n) ? String(n) : '';
+    }
+    if (field.kind === 'select') return field.options?.find(o => value.includes(o)) || '';
+    return value;
+};
+
+// Maps the assistant's { name, value } pairs onto the type's field ids, matching by label or id
+export const normalizeParsedFields = (
+    raw: unknown,
+    type?: ReminderTypeDefinition
+): { [fieldId: string]: string } | undefined => {
+    if (!Array.isArray(raw) || !type?.fields?.length) return undefined;
+
+    const values: { [fieldId: string]: string } = {};
+    raw.forEach((item: any) => {
+        const name = String(item?.name ?? '').trim();
+        const field = type.fields!.find(f => f.label === name || f.id === name);
+        if (!field) return;
+        const value = normalizeFieldValue(field, item.value);
+        if (value) values[field.id] = value;
+    });
+    return Object.keys(values).length > 0 ? values : undefined;
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { AIResponse, AIConfig } from "../types";
+import { AIResponse, AIConfig, AssistantContext, ConversationTurn } from "../types";
+import { formatDateInZone, formatTimeInZone } from "./timeZone";
 
 // Helper to extract JSON from text (handles Markdown code blocks and chatty responses)
 const extractJsonFromText = (text: string): AIResponse => {
@@ -34,14 +35,22 @@ const extractJsonFromText = (text: string): AIResponse => {
     throw new Error(`无法从 AI 回复中提取有效 JSON。`);
 };
 
-// Helper for OpenAI-compatible APIs
-const callOpenAICompatible = async (
-    systemPrompt: string, 
-    userText: string, 
+// Earlier assistant turns are replayed as the JSON the model returned, plain text would invite plain-text answers
+const formatTurn = (turn: ConversationTurn): string => {
+    if (turn.role === 'user') return turn.text;
+    return JSON.stringify(turn.response || { action: 'chat_response', replyText: turn.text });
+};
+
+// Failures worth retrying (see providerChain) carry transient: true
+const transientError = (message: string) => Object.assign(new Error(message), { transient: true });
+
+// Helper for OpenAI-compatible APIs, returns the message content
+const requestChatCompletion = async (
+    messages: { role: string; content: string }[],
     apiKey: string, 
     baseUrl: string, 
     model: string
-): Promise<AIResponse> => {
+): Promise<string> => {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 45000); 
 
@@ -58,10 +67,7 @@ const callOpenAICompatible = async (
             },
             body: JSON.stringify({
                 model: model,
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userText }
-                ],
+                messages,
                 temperature: 0.1
             }),
             signal: controller.signal
@@ -77,12 +83,15 @@ const callOpenAICompatible = async (
                 throw new Error("API Key 无效或未授权 (401)。请检查设置中的 Key。");
             }
             if (response.status === 429) {
-                 throw new Error("API 余额不足或请求过快 (429)。请检查您的服务商额度/账单。");
+                 throw transientError("API 余额不足或请求过快 (429)。请检查您的服务商额度/账单。");
             }
             if (response.status === 404) {
                  throw new Error("模型不存在或路径错误 (404)。请检查 Base URL 和模型名称。");
             }
             
+            if (response.status >= 500 || response.status === 408) {
+                throw transientError(`AI 服务暂时不可用 (${response.status})`);
+            }
             throw new Error(`AI 请求失败 (${response.status})`);
         }
 
@@ -94,25 +103,83 @@ const callOpenAICompatible = async (
         }
 
         console.log("AI Raw Response:", content);
-        return extractJsonFromText(content);
+        return content;
 
     } catch (error: any) {
         clearTimeout(timeoutId);
         console.error("OpenAI Compatible API Error:", error);
         if (error.name === 'AbortError') {
-            throw new Error("AI 请求超时 (45秒)，请检查网络或更换模型");
+            throw transientError("AI 请求超时 (45秒)，请检查网络或更换模型");
         }
         throw error;
     }
 };
 
+const callOpenAICompatible = async (
+    systemPrompt: string, 
+    userText: string, 
+    history: ConversationTurn[],
+    apiKey: string, 
+    baseUrl: string, 
+    model: string
+): Promise<AIResponse> => {
+    const content = await requestChatCompletion([
+        { role: 'system', content: systemPrompt },
+        ...history.map(turn => ({ role: turn.role, content: formatTurn(turn) })),
+        { role: 'user', content: userText }
+    ], apiKey, baseUrl, model);
+    return extractJsonFromText(content);
+};
+
+// One item of create_reminder's "reminders"
+const PARSED_REMINDER_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        time: { type: Type.STRING },
+        times: { type: Type.ARRAY, items: { type: Type.STRING } },
+        date: { type: Type.STRING },
+        targetUser: { type: Type.STRING },
+        type: { type: Type.STRING },
+        recurrence: { type: Type.STRING, enum: ["once", "daily", "weekly", "monthly", "yearly"] },
+        rule: {
+            type: Type.OBJECT,
+            properties: {
+                freq: { type: Type.STRING, enum: ["daily", "weekly", "monthly", "yearly"] },
+                interval: { type: Type.INTEGER },
+                byWeekday: { type: Type.ARRAY, items: { type: Type.STRING, enum: ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] } },
+                bySetPos: { type: Type.INTEGER },
+                byMonthDay: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                until: { type: Type.STRING },
+                count: { type: Type.INTEGER },
+                calendar: { type: Type.STRING, enum: ["gregorian", "lunar"] },
+                lunarMonth: { type: Type.INTEGER },
+                lunarDay: { type: Type.INTEGER },
+                lunarLeap: { type: Type.BOOLEAN },
+                dayFilter: { type: Type.STRING, enum: ["workday", "nonworkday"] }
+            },
+            required: ["freq"]
+        },
+        leadTimes: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+        fields: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { name: { type: Type.STRING }, value: { type: Type.STRING } },
+                required: ["name", "value"]
+            }
+        }
+    }
+};
+
 export const parseReminderWithGemini = async (
     text: string, 
     currentUserName: string, 
     validUserNames?: string[], 
     referenceDate?: string,
     aiConfig?: AIConfig,
-    providerType?: string
+    providerType?: string,
+    context?: AssistantContext
 ): Promise<AIResponse | null> => {
 
   // Logic: Use provided key if available, otherwise fall back to env for Gemini, otherwise throw.
@@ -124,6 +191,29 @@ export const parseReminderWithGemini = async (
 
   const todayStr = referenceDate || new Date().toISOString().split('T')[0];
   const validNamesStr = validUserNames ? validUserNames.join(', ') : '';
+  const now = Date.now();
+  const timeZoneLines = Object.entries(context?.memberTimeZones || {})
+      .map(([name, tz]) => `        - ${name}: ${tz} (their local now: ${formatDateInZone(now, tz)} ${formatTimeInZone(now, tz)})`)
+      .join('\n');
+  const typeLines = (context?.reminderTypes || [])
+      .map(t => {
+          const fields = (t.fields || []).map(f => f.kind === 'select' ? `"${f.label}" (one of: ${(f.options || []).join('/')})` : `"${f.label}"${f.kind === 'number' ? ` (number${f.unit ? ' of ' + f.unit : ''})` : ''}`);
+          return `        - "${t.id}" (${t.label})${fields.length > 0 ? `, fields: ${fields.join(', ')}` : ''}`;
+      })
+      .join('\n');
+  const medicationLines = (context?.medications || [])
+      .map(m => `        - ${m.member}: ${m.name}, ${m.stock} left, ${m.dose} per intake, ${m.daysLeft === null ? 'no recurring schedule' : `lasts ${m.daysLeft} more days`}`)
+      .join('\n');
+  const history = context?.history || [];
+  const reminderLines = (context?.reminders || [])
+      .map(r => `        - ${r.ref}: ${r.member} | ${r.date} ${r.times.join(',')} | ${r.title} | ${r.type}${r.repeat ? ` | ${r.repeat}` : ''}${r.done.length > 0 ? ` | done ${r.done.join(',')}` : ''}`)
+      .join('\n');
+  const currentTime = new Date().toTimeString().slice(0, 5);
+  // Only the household's own type ids are allowed in "type"
+  const typeIds = (context?.reminderTypes || []).map(t => t.id);
+  const reminderSchema = typeIds.length > 0
+      ? { ...PARSED_REMINDER_SCHEMA, properties: { ...PARSED_REMINDER_SCHEMA.properties, type: { type: Type.STRING, enum: typeIds } } }
+      : PARSED_REMINDER_SCHEMA;
   
   const systemPrompt = `
       You are a smart family assistant. Your job is to classify the user's intent and return a JSON object.
@@ -132,6 +222,18 @@ export const parseReminderWithGemini = async (
       - Current User View: "${currentUserName}"
       - Valid Family Members: [${validNamesStr}]
       - Today's Date: ${todayStr}
+      ${timeZoneLines ? `- Members living in other time zones (everyone else uses the device zone):
+${timeZoneLines}
+      - "time" and "date" are ALWAYS the target member's own local wall-clock time.
+        "20:00 his time" for a member abroad -> "20:00". If the user says "北京时间"/"our time", convert to the member's zone.
+        "Today"/"tomorrow" for a member abroad refer to THEIR local date.` : ''}
+      ${typeLines ? `- Reminder types (use the id in "type"):
+${typeLines}` : ''}
+      ${medicationLines ? `- Medicine stock (units are pills unless the name says otherwise):
+${medicationLines}` : ''}
+      ${reminderLines ? `- Current time: ${currentTime}
+      - Existing reminders (ref: member | date times | title | type | repeat | done slots):
+${reminderLines}` : ''}
       
       --------------------------------------------------
       CRITICAL RULE: "HOME MODE" AMBIGUITY CHECK
@@ -150,15 +252,25 @@ export const parseReminderWithGemini = async (
       If the user clearly asks to set a reminder AND the target is clear (based on rules above), return:
       {
         "action": "create_reminder",
-        "reminder": {
+        "reminders": [{
           "title": "Short title",
-          "time": "HH:mm" (24h, default to now+5min),
-          "date": "YYYY-MM-DD" (default to ${todayStr}),
+          "time": "HH:mm" (24h with two digits each, "08:05" not "8:5" or "8点5分", default to now+5min),
+          "times": ["HH:mm", ...] (optional, only when the SAME task happens at several times a day; "time" = the earliest),
+          "date": "YYYY-MM-DD" (default to ${todayStr}, never before it),
           "targetUser": "Name",
-          "type": "medication" | "general" | "activity",
-          "recurrence": "once" | "daily" | "weekly" | "monthly" | "yearly"
-        }
+          "type": ${typeLines ? 'one of the reminder type ids above' : '"medication" | "general" | "activity"'},
+          "recurrence": "once" | "daily" | "weekly" | "monthly" | "yearly",
+          "rule": { "freq": "daily" | "weekly" | "monthly" | "yearly", "interval": 1, "byWeekday": ["MO", ...], "bySetPos": 2, "byMonthDay": [15], "until": "YYYY-MM-DD", "count": 7, "calendar": "lunar", "lunarMonth": 8, "lunarDay": 15, "lunarLeap": false, "dayFilter": "workday" | "nonworkday" } (optional),
+          "leadTimes": [1440, 60] (optional, minutes before "time" for heads-up alerts, only when the user asks for them),
+          "fields": [{"name": "剂量", "value": "2片"}] (optional, the chosen type's fields the user actually mentioned, by field name)
+        }]
       }
+
+      SEVERAL REMINDERS IN ONE REQUEST:
+      - "reminders" holds one item per task and member. The SAME task at several times of one day stays ONE item with "times".
+      - "提醒爷爷早上八点和晚上八点吃药，奶奶九点测血糖" -> two items: 爷爷 吃药 with "times": ["08:00", "20:00"], and 奶奶 测血糖 at "09:00".
+      - Every item needs its own "targetUser". The Home Mode rule applies per item: if only some items name a member, leave
+        "targetUser" out of the others and the family picks the member when confirming.
       
       RECURRENCE RULES:
       - "Every day" -> "daily"
@@ -166,6 +278,41 @@ export const parseReminderWithGemini = async (
       - "Every month" -> "monthly"
       - "Every year", "Birthday" -> "yearly"
       - Default is "once".
+      - For anything the five values cannot express, ALSO return "rule" (RFC 5545 style) and set "recurrence" to rule.freq.
+        Weekday codes: MO TU WE TH FR SA SU. bySetPos: 1 = first, 2 = second, -1 = last. byMonthDay -1 = last day of month.
+        - "周一到周五" / "Every weekday" -> {"freq": "weekly", "byWeekday": ["MO","TU","WE","TH","FR"]}
+        - "工作日" / "上班日" (follows official holidays and 调休 make-up days) -> {"freq": "daily", "dayFilter": "workday"}
+        - "休息日" / "节假日和周末" -> {"freq": "daily", "dayFilter": "nonworkday"}
+        - "每周一三五" -> {"freq": "weekly", "byWeekday": ["MO","WE","FR"]}
+        - "每三天" / "Every 3 days" -> {"freq": "daily", "interval": 3}
+        - "每月第二个周日" -> {"freq": "monthly", "byWeekday": ["SU"], "bySetPos": 2}
+        - "每月最后一天" -> {"freq": "monthly", "byMonthDay": [-1]}
+      - Bounded series also use "rule": "until" = last date (YYYY-MM-DD, inclusive), "count" = number of days/instances.
+        - "一天两次，吃七天" -> {"freq": "daily", "count": 7} with "times" holding both times
+        - "每周二理疗，到三月底" -> {"freq": "weekly", "byWeekday": ["TU"], "until": "YYYY-03-31"}
+      - Lunar (农历) dates use "rule" with "calendar": "lunar" and the lunar month/day. Only yearly rules can be lunar.
+        - "农历八月十五" -> {"freq": "yearly", "calendar": "lunar", "lunarMonth": 8, "lunarDay": 15}
+        - "奶奶农历生日，腊月初八" -> {"freq": "yearly", "calendar": "lunar", "lunarMonth": 12, "lunarDay": 8}, type "general", title "奶奶生日"
+        - "闰六月初一" -> add "lunarLeap": true. 正月 = 1, 冬月 = 11, 腊月 = 12.
+        - If the user mentions a lunar birthday without the date (e.g. "奶奶农历生日"), use Scenario B and ask for the lunar date.
+        - For lunar rules "date" may be left as today; the app converts it.
+      - "date" must be the FIRST occurrence that matches the rule (on or after today).
+
+      FIELDS:
+      - "爷爷饭后吃两片降压药" -> type "medication", "fields": [{"name": "剂量", "value": "2片"}, {"name": "饭前饭后", "value": "饭后"}]
+      - "周五上午九点去协和医院找王医生复查" -> "fields": [{"name": "地点", "value": "协和医院"}, {"name": "医生", "value": "王医生"}]
+      - Leave "fields" out when nothing was mentioned. Don't repeat field values in "title".
+
+      PRE-ALERTS:
+      - "提前一天和一小时提醒我" / "remind me a day and an hour before" -> "leadTimes": [1440, 60]
+      - "提前半小时" -> "leadTimes": [30]
+      ${history.length > 0 ? `
+      FOLLOW-UP ANSWERS:
+      - The earlier messages of this conversation come before the input.
+      - If your last reply asked a question (who, when, which day...), the input is the answer. Combine it with the
+        original request and return "create_reminder", e.g. "提醒吃降压药" -> you asked "请问是提醒谁？" -> input "爷爷"
+        -> create the 吃降压药 reminder with "targetUser": "爷爷".
+      - A reminder you already created is done. Don't create it again unless the user asks for another one.` : ''}
 
       Scenario B: AMBIGUOUS INPUT / CASUAL CHAT
       If the user says "Hello", or is in Home Mode but didn't say a name (e.g. "Wake me up"), return:
@@ -174,10 +321,38 @@ export const parseReminderWithGemini = async (
         "replyText": "请问是提醒谁？ (or conversational reply)"
       }
 
+      Scenario C: QUESTION ABOUT MEDICINE STOCK
+      If the user asks how much of a medicine is left or how long it lasts (e.g. "爷爷的降压药还剩几天"), answer from
+      "Medicine stock" with action "chat_response", e.g. {"action": "chat_response", "replyText": "爷爷的降压药还剩28粒，大约还能吃14天。"}
+      Match the medicine loosely by name. If it isn't listed, say that its stock isn't being tracked.
+
+      Scenario D: QUESTION ABOUT EXISTING REMINDERS ("爷爷明天有什么安排", "妈妈今天还有什么没做")
+      Answer from "Existing reminders":
+      {"action": "query_reminders", "targets": [{"ref": "r3"}, {"ref": "r8"}], "replyText": "爷爷明天有两个提醒：早上八点吃降压药，下午三点散步。"}
+      "targets" lists the reminders the answer is about. If none match, say so in "replyText" with an empty "targets".
+
+      Scenario E: CHANGE AN EXISTING REMINDER ("把妈妈下午的提醒改到四点", "爷爷的复查改到下周一")
+      {"action": "update_reminder", "targets": [{"ref": "r5", "time": "15:00"}], "changes": {"time": "16:00"}}
+      "changes" holds only what changes: "title", "time" (HH:mm), "date" (YYYY-MM-DD), "targetUser".
+      A target's "time" picks one slot of a reminder that has several times.
+
+      Scenario F: CANCEL / DELETE A REMINDER ("爸爸的跑步取消", "删掉奶奶周五的复查")
+      {"action": "delete_reminder", "targets": [{"ref": "r7"}]}
+
+      Scenario G: SOMETHING WAS ALREADY DONE ("奶奶已经吃过药了")
+      {"action": "complete_reminder", "targets": [{"ref": "r2", "time": "08:00"}]}
+      Pick the open (not done) slot closest to the current time.
+
+      RULES FOR D-G:
+      - Only use refs from "Existing reminders". If nothing fits, return "chat_response" saying so.
+      - "update_reminder" and "complete_reminder" take exactly ONE target. If several reminders fit equally well, ask which one with "chat_response".
+      - The Home Mode ambiguity rule applies: "我的跑步取消" in Home Mode needs a name.
+
       Examples:
       1. (Home Mode) "Wake me up at 8" -> {"action": "chat_response", "replyText": "请问是提醒谁八点起床？"}
-      2. (Dad's View) "Wake me up at 8" -> {"action": "create_reminder", "reminder": {"targetUser": "Dad", ...}}
-      3. (Home Mode) "Remind Grandpa to eat every day" -> {"action": "create_reminder", "reminder": {"targetUser": "Grandpa", "recurrence": "daily", ...}}
+      2. (Dad's View) "Wake me up at 8" -> {"action": "create_reminder", "reminders": [{"targetUser": "Dad", ...}]}
+      3. (Home Mode) "Remind Grandpa to eat every day" -> {"action": "create_reminder", "reminders": [{"targetUser": "Grandpa", "recurrence": "daily", ...}]}
+      4. (Home Mode) "爷爷每天早上八点、中午一点、晚上八点吃降压药" -> {"action": "create_reminder", "reminders": [{"targetUser": "爷爷", "time": "08:00", "times": ["08:00", "13:00", "20:00"], "recurrence": "daily", ...}]}
       
       IMPORTANT: Return ONLY the JSON object. No markdown.
       `;
@@ -187,6 +362,7 @@ export const parseReminderWithGemini = async (
       return callOpenAICompatible(
           systemPrompt, 
           text, 
+          history,
           apiKey!, 
           aiConfig?.baseUrl || '', 
           aiConfig?.model || ''
@@ -198,26 +374,37 @@ export const parseReminderWithGemini = async (
     const ai = new GoogleGenAI({ apiKey: apiKey });
     const response = await ai.models.generateContent({
       model: aiConfig?.model || "gemini-2.5-flash",
-      contents: `${systemPrompt}
-      Input: "${text}"`,
+      // Instructions and the reminder summary come first, then the conversation, like the OpenAI-compatible path
+      contents: [
+        ...history.map(turn => ({ role: turn.role === 'user' ? 'user' : 'model', parts: [{ text: formatTurn(turn) }] })),
+        { role: 'user', parts: [{ text }] }
+      ],
       config: {
+        systemInstruction: systemPrompt,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            action: { type: Type.STRING, enum: ["create_reminder", "chat_response"] },
-            reminder: {
+            action: { type: Type.STRING, enum: ["create_reminder", "chat_response", "query_reminders", "update_reminder", "delete_reminder", "complete_reminder"] },
+            reminders: { type: Type.ARRAY, items: reminderSchema },
+            replyText: { type: Type.STRING },
+            targets: {
+               type: Type.ARRAY,
+               items: {
+                 type: Type.OBJECT,
+                 properties: { ref: { type: Type.STRING }, time: { type: Type.STRING } },
+                 required: ["ref"]
+               }
+            },
+            changes: {
                type: Type.OBJECT,
                properties: {
                  title: { type: Type.STRING },
                  time: { type: Type.STRING },
                  date: { type: Type.STRING },
-                 targetUser: { type: Type.STRING },
-                 type: { type: Type.STRING },
-                 recurrence: { type: Type.STRING, enum: ["once", "daily", "weekly", "monthly", "yearly"] }
+                 targetUser: { type: Type.STRING }
                }
-            },
-            replyText: { type: Type.STRING }
+            }
           },
           required: ["action"]
         }
@@ -233,4 +420,43 @@ export const parseReminderWithGemini = async (
     console.error("Gemini Parsing Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Rewords the template briefing to sound natural when read aloud. Plain text in, plain text out.
+export const rewriteBriefing = async (
+    text: string,
+    aiConfig?: AIConfig,
+    providerType?: string
+): Promise<string> => {
+  const apiKey = aiConfig?.apiKey || (providerType === 'gemini' ? process.env.API_KEY : '');
+  if (!apiKey && providerType !== 'custom') {
+    throw new Error("请先在设置中配置 API Key");
+  }
+
+  const systemPrompt = `
+      You turn a family member's daily schedule into a short spoken greeting in Chinese, read aloud to an elderly person.
+      - Keep EVERY task and time from the input, in the same order. Do not add, drop or change any.
+      - Warm and simple, at most three short sentences. Spell times the way they are spoken ("八点", "下午三点").
+      - Return only the sentence(s) to be spoken. No markdown, no quotes, no JSON.
+      `;
+
+  let reply: string;
+  if (providerType && providerType !== 'gemini') {
+      reply = await requestChatCompletion([
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: text }
+      ], apiKey!, aiConfig?.baseUrl || '', aiConfig?.model || '');
+  } else {
+      const ai = new GoogleGenAI({ apiKey: apiKey });
+      const response = await ai.models.generateContent({
+        model: aiConfig?.model || "gemini-2.5-flash",
+        contents: text,
+        config: { systemInstruction: systemPrompt }
+      });
+      reply = response.text || '';
+  }
+
+  const cleaned = reply.replace(/```[a-z]*|```/g, '').trim();
+  if (!cleaned) throw new Error("AI 返回了空内容");
+  return cleaned;
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { HistoryEvent, HistoryEventKind } from '../types';
+import { summarizeAdherence, pruneHistory, HISTORY_RETENTION_DAYS } from './history';
+
+let nextId = 1;
+const event = (kind: HistoryEventKind, reminderId: string, time: string, at: number, extra: Partial<HistoryEvent> = {}): HistoryEvent => ({
+    id: String(nextId++), kind, at, reminderId, userId: 'u1', title: '吃药', type: 'medication', date: '2026-01-15', time, ...extra
+});
+
+const byMember = (e: HistoryEvent) => e.userId;
+
+describe('summarizeAdherence', () => {
+    it('counts each slot once by its latest outcome', () => {
+        const stats = summarizeAdherence([
+            event('fired', 'r1', '08:00', 1),
+            event('snoozed', 'r1', '08:00', 2, { snoozeMinutes: 5 }),
+            event('completed', 'r1', '08:00', 3),
+            event('missed', 'r1', '12:00', 4),
+            event('skipped', 'r2', '09:00', 5),
+            event('missed', 'r3', '20:00', 6)
+        ], 0, byMember).u1;
+
+        expect(stats).toMatchObject({ due: 4, completed: 1, skipped: 1, missed: 2, snoozes: 1, late: 0 });
+        expect(stats.rate).toBe(0.25);
+    });
+
+    it('counts a missed slot completed later as late', () => {
+        const stats = summarizeAdherence([
+            event('missed', 'r1', '08:00', 1),
+            event('completed', 'r1', '08:00', 2)
+        ], 0, byMember).u1;
+        expect(stats).toMatchObject({ due: 1, completed: 1, late: 1, missed: 0 });
+    });
+
+    it('drops a slot that was reopened', () => {
+        const stats = summarizeAdherence([
+            event('completed', 'r1', '08:00', 1),
+            event('reopened', 'r1', '08:00', 2)
+        ], 0, byMember).u1;
+        expect(stats).toMatchObject({ due: 0, completed: 0 });
+        expect(stats.rate).toBeNull();
+    });
+
+    it('leaves out events before the period', () => {
+        const stats = summarizeAdherence([event('missed', 'r1', '08:00', 1), event('completed', 'r2', '08:00', 10)], 5, byMember).u1;
+        expect(stats).toMatchObject({ due: 1, completed: 1, missed: 0 });
+    });
+});
+
+describe('pruneHistory', () => {
+    it('drops entries past retention', () => {
+        const now = Date.UTC(2026, 0, 15);
+        const old = event('completed', 'r1', '08:00', now - (HISTORY_RETENTION_DAYS + 1) * 86400000);
+        const recent = event('completed', 'r1', '08:00', now - 86400000);
+        expect(pruneHistory([old, recent], now)).toEqual([recent]);
+    });
+});
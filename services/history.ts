@@ -0,0 +1,89 @@
+import { HistoryEvent, HistoryEventKind, Reminder } from "../types";
+
+// Builds a log entry for one slot of a reminder. `reminder.time` is taken as the slot unless given.
+export const createHistoryEvent = (
+    kind: HistoryEventKind,
+    reminder: Reminder,
+    at: number,
+    id: string,
+    extra: Partial<HistoryEvent> = {}
+): HistoryEvent => ({
+    id,
+    kind,
+    at,
+    reminderId: reminder.id,
+    userId: reminder.userId,
+    title: reminder.title,
+    type: reminder.type,
+    date: reminder.date,
+    time: reminder.time,
+    ...extra
+});
+
+// The log is append-only: entries are never edited, only pruned once past retention
+export const appendHistory = (history: HistoryEvent[], events: HistoryEvent[]): HistoryEvent[] => {
+    return events.length > 0 ? [...history, ...events] : history;
+};
+
+// Entries older than this are dropped on load so the log can't outgrow localStorage
+export const HISTORY_RETENTION_DAYS = 366;
+
+export const pruneHistory = (history: HistoryEvent[], now: number): HistoryEvent[] => {
+    const cutoff = now - HISTORY_RETENTION_DAYS * 86400000;
+    return history.filter(e => e.at >= cutoff);
+};
+
+export interface AdherenceStats {
+    due: number; // Slots with an outcome in the period
+    completed: number;
+    late: number; // Completed after being reported missed
+    skipped: number;
+    missed: number; // Still missed at the end of the log
+    snoozes: number;
+    escalations: number;
+    rate: number | null; // completed / due, null without due slots
+}
+
+const emptyStats = (): AdherenceStats => ({ due: 0, completed: 0, late: 0, skipped: 0, missed: 0, snoozes: 0, escalations: 0, rate: null });
+
+const OUTCOME_KINDS: HistoryEventKind[] = ['completed', 'skipped', 'missed', 'reopened'];
+
+// Groups slots by `groupOf` and counts each slot once, by its latest outcome. Events are
+// expected in the order they were appended.
+export const summarizeAdherence = (
+    history: HistoryEvent[],
+    since: number,
+    groupOf: (event: HistoryEvent) => string
+): { [group: string]: AdherenceStats } => {
+    const result: { [group: string]: AdherenceStats } = {};
+    const outcomes: { [slot: string]: { group: string; event: HistoryEvent; wasMissed: boolean } } = {};
+    const stats = (group: string) => result[group] || (result[group] = emptyStats());
+
+    history.forEach(e => {
+        if (e.at < since) return;
+        const group = groupOf(e);
+
+        if (e.kind === 'snoozed') stats(group).snoozes++;
+        if (e.kind === 'escalated') stats(group).escalations++;
+        if (!OUTCOME_KINDS.includes(e.kind)) return;
+
+        const slot = `${e.reminderId}@${e.time}`;
+        const wasMissed = !!outcomes[slot]?.wasMissed || e.kind === 'missed';
+        outcomes[slot] = { group, event: e, wasMissed };
+    });
+
+    Object.values(outcomes).forEach(({ group, event, wasMissed }) => {
+        const s = stats(group);
+        if (event.kind === 'reopened') return;
+        s.due++;
+        if (event.kind === 'completed') {
+            s.completed++;
+            if (event.late || wasMissed) s.late++;
+        }
+        if (event.kind === 'skipped') s.skipped++;
+        if (event.kind === 'missed') s.missed++;
+    });
+
+    Object.values(result).forEach(s => { s.rate = s.due > 0 ? s.completed / s.due : null; });
+    return result;
+};
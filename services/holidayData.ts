@@ -0,0 +1,45 @@
+import { HolidayCalendar } from "../types";
+
+// Bundled from the State Council holiday notices. Add the next year here when it is published
+// (usually in November), or import the same structure as JSON in Settings.
+export const BUNDLED_HOLIDAY_CALENDAR: HolidayCalendar = {
+    updatedAt: '2025-11-04',
+    years: {
+        '2025': {
+            holidays: [
+                { name: '元旦', start: '2025-01-01', end: '2025-01-01' },
+                { name: '春节', start: '2025-01-28', end: '2025-02-04' },
+                { name: '清明节', start: '2025-04-04', end: '2025-04-06' },
+                { name: '劳动节', start: '2025-05-01', end: '2025-05-05' },
+                { name: '端午节', start: '2025-05-31', end: '2025-06-02' },
+                { name: '国庆节', start: '2025-10-01', end: '2025-10-08' }
+            ],
+            workdays: [
+                { name: '春节调休', date: '2025-01-26' },
+                { name: '春节调休', date: '2025-02-08' },
+                { name: '劳动节调休', date: '2025-04-27' },
+                { name: '国庆节调休', date: '2025-09-28' },
+                { name: '国庆节调休', date: '2025-10-11' }
+            ]
+        },
+        '2026': {
+            holidays: [
+                { name: '元旦', start: '2026-01-01', end: '2026-01-03' },
+                { name: '春节', start: '2026-02-15', end: '2026-02-23' },
+                { name: '清明节', start: '2026-04-04', end: '2026-04-06' },
+                { name: '劳动节', start: '2026-05-01', end: '2026-05-05' },
+                { name: '端午节', start: '2026-06-19', end: '2026-06-21' },
+                { name: '中秋节', start: '2026-09-25', end: '2026-09-27' },
+                { name: '国庆节', start: '2026-10-01', end: '2026-10-07' }
+            ],
+            workdays: [
+                { name: '元旦调休', date: '2026-01-04' },
+                { name: '春节调休', date: '2026-02-14' },
+                { name: '春节调休', date: '2026-02-28' },
+                { name: '劳动节调休', date: '2026-05-09' },
+                { name: '国庆节调休', date: '2026-09-20' },
+                { name: '国庆节调休', date: '2026-10-10' }
+            ]
+        }
+    }
+};
@@ -0,0 +1,72 @@
+import { HolidayCalendar, HolidayYear } from "../types";
+import { BUNDLED_HOLIDAY_CALENDAR } from "./holidayData";
+
+export interface HolidayInfo {
+    kind: 'holiday' | 'workday'; // Day off, or weekend day worked as make-up (调休)
+    name: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Imported years override the bundled ones year by year
+let activeCalendar: HolidayCalendar = BUNDLED_HOLIDAY_CALENDAR;
+
+const addDays = (dateStr: string, days: number): string => {
+    const [y, m, d] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+const buildIndex = (calendar: HolidayCalendar) => {
+    const index: { [date: string]: HolidayInfo } = {};
+    Object.values(calendar.years).forEach(year => {
+        year.holidays.forEach(h => {
+            for (let d = h.start; d <= h.end; d = addDays(d, 1)) index[d] = { kind: 'holiday', name: h.name };
+        });
+        year.workdays.forEach(w => { index[w.date] = { kind: 'workday', name: w.name }; });
+    });
+    return index;
+};
+
+let dayIndex = buildIndex(activeCalendar);
+
+export const setHolidayCalendar = (custom?: HolidayCalendar | null) => {
+    activeCalendar = custom
+        ? { updatedAt: custom.updatedAt, years: { ...BUNDLED_HOLIDAY_CALENDAR.years, ...custom.years } }
+        : BUNDLED_HOLIDAY_CALENDAR;
+    dayIndex = buildIndex(activeCalendar);
+};
+
+export const getHolidayInfo = (dateStr: string): HolidayInfo | null => dayIndex[dateStr] || null;
+
+// Official workday: make-up days count, holidays don't, otherwise Monday to Friday.
+// Years without data fall back to plain weekdays.
+export const isWorkday = (dateStr: string): boolean => {
+    const info = dayIndex[dateStr];
+    if (info) return info.kind === 'workday';
+    const [y, m, d] = dateStr.split('-').map(Number);
+    const weekday = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+    return weekday >= 1 && weekday <= 5;
+};
+
+export const getCoveredYears = (): number[] => Object.keys(activeCalendar.years).map(Number).sort((a, b) => a - b);
+
+export const getHolidayCalendarUpdatedAt = (): string => activeCalendar.updatedAt;
+
+// Validates an imported calendar file. Returns null if it doesn't look like one.
+export const parseHolidayCalendar = (raw: any): HolidayCalendar | null => {
+    if (!raw || typeof raw !== 'object' || !raw.years || typeof raw.years !== 'object') return null;
+
+    const years: { [year: string]: HolidayYear } = {};
+    for (const [year, data] of Object.entries<any>(raw.years)) {
+        if (!/^\d{4}$/.test(year) || !Array.isArray(data?.holidays) || !Array.isArray(data?.workdays)) return null;
+        const holidays = data.holidays.filter((h: any) => h && DATE_PATTERN.test(h.start) && DATE_PATTERN.test(h.end) && h.start <= h.end);
+        const workdays = data.workdays.filter((w: any) => w && DATE_PATTERN.test(w.date));
+        years[year] = {
+            holidays: holidays.map((h: any) => ({ name: String(h.name || '假期'), start: h.start, end: h.end })),
+            workdays: workdays.map((w: any) => ({ name: String(w.name || '调休'), date: w.date }))
+        };
+    }
+    if (Object.keys(years).length === 0) return null;
+
+    return { updatedAt: DATE_PATTERN.test(raw.updatedAt) ? raw.updatedAt : new Date().toISOString().slice(0, 10), years };
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { toLunarDate, lunarToSolar, getLunarAnniversary, getSolarTerm, getLunarDayLabel, formatLunarDate, isLunarSupported } from './lunar';
+
+describe.runIf(isLunarSupported())('lunar calendar', () => {
+    it('converts Gregorian dates', () => {
+        expect(toLunarDate('2025-01-29')).toEqual({ year: 2025, month: 1, day: 1, leap: false });
+        expect(toLunarDate('2025-07-25')).toEqual({ year: 2025, month: 6, day: 1, leap: true });
+    });
+
+    it('finds a leap month only in years that have it', () => {
+        expect(lunarToSolar(2025, 6, 1, true)).toBe('2025-07-25');
+        expect(lunarToSolar(2026, 6, 1, true)).toBeNull();
+    });
+
+    it('falls back to the regular month for a leap-month anniversary', () => {
+        expect(getLunarAnniversary(2026, 1, 1)).toBe('2026-02-17');
+        expect(getLunarAnniversary(2026, 6, 10, true)).toBe('2026-07-23');
+    });
+
+    it('labels festivals and solar terms', () => {
+        expect(getLunarDayLabel('2025-10-06')).toEqual({ text: '中秋', highlight: true });
+        expect(getLunarDayLabel('2025-10-07')).toEqual({ text: '十六', highlight: false });
+        expect(getSolarTerm('2025-12-21')).toBe('冬至');
+        expect(getSolarTerm('2025-12-20')).toBeNull();
+    });
+
+    it('formats lunar dates', () => {
+        expect(formatLunarDate({ month: 12, day: 30, leap: false })).toBe('腊月三十');
+        expect(formatLunarDate({ month: 6, day: 1, leap: true })).toBe('闰六月初一');
+    });
+});
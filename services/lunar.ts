@@ -0,0 +1,166 @@
+// Chinese lunisolar calendar (农历) on top of Intl's "chinese" calendar, plus the 24 solar terms.
+// Dates are "YYYY-MM-DD" strings handled as UTC midnights, like in recurrence.ts.
+
+export interface LunarDate {
+    year: number; // Gregorian year the lunar year starts in
+    month: number; // 1-12
+    day: number; // 1-30
+    leap: boolean; // Intercalary month (闰月)
+}
+
+const MONTH_NAMES = ['正', '二', '三', '四', '五', '六', '七', '八', '九', '十', '冬', '腊'];
+const DAY_TENS = ['初', '十', '廿', '三'];
+const DAY_UNITS = ['一', '二', '三', '四', '五', '六', '七', '八', '九', '十'];
+
+// Ordered from 春分 (sun at 0°), every 15° of ecliptic longitude
+const SOLAR_TERMS = [
+    '春分', '清明', '谷雨', '立夏', '小满', '芒种', '夏至', '小暑', '大暑', '立秋', '处暑', '白露',
+    '秋分', '寒露', '霜降', '立冬', '小雪', '大雪', '冬至', '小寒', '大寒', '立春', '雨水', '惊蛰'
+];
+
+// "month-day" of lunar festivals, 除夕 is handled separately since 腊月 can have 29 days
+const LUNAR_FESTIVALS: { [key: string]: string } = {
+    '1-1': '春节', '1-15': '元宵', '2-2': '龙抬头', '5-5': '端午', '7-7': '七夕',
+    '7-15': '中元', '8-15': '中秋', '9-9': '重阳', '12-8': '腊八', '12-23': '小年'
+};
+
+// Solar terms are reckoned in China Standard Time
+const CST_OFFSET_MS = 8 * 3600000;
+
+let formatter: Intl.DateTimeFormat | null | undefined;
+
+const getFormatter = (): Intl.DateTimeFormat | null => {
+    if (formatter === undefined) {
+        try {
+            const f = new Intl.DateTimeFormat('en-US-u-ca-chinese', { timeZone: 'UTC', year: 'numeric', month: 'numeric', day: 'numeric' });
+            formatter = f.resolvedOptions().calendar === 'chinese' ? f : null;
+        } catch {
+            formatter = null;
+        }
+    }
+    return formatter;
+};
+
+export const isLunarSupported = (): boolean => getFormatter() !== null;
+
+const parseDate = (dateStr: string): number => {
+    const [y, m, d] = dateStr.split('-').map(Number);
+    return Date.UTC(y, m - 1, d);
+};
+
+const formatDate = (ts: number): string => new Date(ts).toISOString().slice(0, 10);
+
+const lunarAt = (ts: number): LunarDate | null => {
+    const f = getFormatter();
+    if (!f) return null;
+    const parts: { [type: string]: string } = {};
+    f.formatToParts(new Date(ts)).forEach(p => { parts[p.type] = p.value; });
+    // Leap months come out as e.g. "6bis"
+    return {
+        year: Number(parts.relatedYear || parts.year),
+        month: parseInt(parts.month, 10),
+        day: Number(parts.day),
+        leap: /bis/.test(parts.month)
+    };
+};
+
+export const toLunarDate = (dateStr: string): LunarDate | null => lunarAt(parseDate(dateStr));
+
+// First day of a lunar month, or null when that month doesn't exist (e.g. a leap month in a normal year)
+const findMonthStart = (year: number, month: number, leap: boolean): number | null => {
+    // Lunar new year falls between Jan 21 and Feb 20, so month N starts no earlier than this
+    const earliest = Date.UTC(year, 0, 20) + (month - 1) * 29 * 86400000;
+    for (let i = 0; i < 100; i++) {
+        const ts = earliest + i * 86400000;
+        const l = lunarAt(ts);
+        if (!l) return null;
+        if (l.year === year && l.month === month && l.leap === leap && l.day === 1) return ts;
+        if (l.year > year || (l.year === year && l.month > month)) return null;
+    }
+    return null;
+};
+
+// Gregorian date of a lunar date. Day 30 in a 29-day month falls back to the 29th.
+export const lunarToSolar = (year: number, month: number, day: number, leap = false): string | null => {
+    const start = findMonthStart(year, month, leap);
+    if (start === null) return null;
+
+    let ts = start + (day - 1) * 86400000;
+    while (ts > start) {
+        const l = lunarAt(ts);
+        if (l && l.month === month && l.leap === leap) break;
+        ts -= 86400000;
+    }
+    return formatDate(ts);
+};
+
+// Date of a yearly lunar anniversary in the given lunar year. A leap-month date is kept in years that have
+// the same leap month and moves to the regular month otherwise.
+export const getLunarAnniversary = (year: number, month: number, day: number, leap = false): string | null => {
+    if (leap) {
+        const inLeap = lunarToSolar(year, month, day, true);
+        if (inLeap) return inLeap;
+    }
+    return lunarToSolar(year, month, day, false);
+};
+
+export const formatLunarMonth = (month: number, leap = false): string => `${leap ? '闰' : ''}${MONTH_NAMES[month - 1]}月`;
+
+export const formatLunarDay = (day: number): string => {
+    if (day === 10) return '初十';
+    if (day === 20) return '二十';
+    if (day === 30) return '三十';
+    return `${DAY_TENS[Math.floor(day / 10)]}${DAY_UNITS[(day - 1) % 10]}`;
+};
+
+export const formatLunarDate = (lunar: Pick<LunarDate, 'month' | 'day' | 'leap'>): string => {
+    return `${formatLunarMonth(lunar.month, lunar.leap)}${formatLunarDay(lunar.day)}`;
+};
+
+// Low-precision apparent solar longitude (Meeus ch. 25), good to about 0.01°, i.e. a quarter of an hour
+const solarLongitude = (ts: number): number => {
+    const jd = ts / 86400000 + 2440587.5;
+    const t = (jd - 2451545) / 36525;
+    const rad = Math.PI / 180;
+    const l0 = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+    const m = (357.52911 + 35999.05029 * t - 0.0001537 * t * t) * rad;
+    const c = (1.914602 - 0.004817 * t - 0.000014 * t * t) * Math.sin(m)
+        + (0.019993 - 0.000101 * t) * Math.sin(2 * m)
+        + 0.000289 * Math.sin(3 * m);
+    const omega = (125.04 - 1934.136 * t) * rad;
+    const apparent = l0 + c - 0.00569 - 0.00478 * Math.sin(omega);
+    return ((apparent % 360) + 360) % 360;
+};
+
+// Solar term starting on the given date (Beijing time), if any
+export const getSolarTerm = (dateStr: string): string | null => {
+    const dayStart = parseDate(dateStr) - CST_OFFSET_MS;
+    const from = solarLongitude(dayStart);
+    let to = solarLongitude(dayStart + 86400000);
+    if (to < from) to += 360;
+
+    const boundary = Math.ceil(from / 15) * 15;
+    if (boundary >= to) return null;
+    return SOLAR_TERMS[(boundary / 15) % 24];
+};
+
+// Short label for a calendar cell: festival, then solar term, then month name on the 1st, else the lunar day
+export const getLunarDayLabel = (dateStr: string): { text: string; highlight: boolean } | null => {
+    const lunar = toLunarDate(dateStr);
+    if (!lunar) return null;
+
+    if (!lunar.leap) {
+        const festival = LUNAR_FESTIVALS[`${lunar.month}-${lunar.day}`];
+        if (festival) return { text: festival, highlight: true };
+        if (lunar.month === 12) {
+            const next = lunarAt(parseDate(dateStr) + 86400000);
+            if (next && next.month === 1 && next.day === 1) return { text: '除夕', highlight: true };
+        }
+    }
+
+    const term = getSolarTerm(dateStr);
+    if (term) return { text: term, highlight: true };
+
+    if (lunar.day === 1) return { text: formatLunarMonth(lunar.month, lunar.leap), highlight: false };
+    return { text: formatLunarDay(lunar.day), highlight: false };
+};
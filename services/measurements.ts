@@ -0,0 +1,114 @@
+import { Measurement, MeasurementKind, User } from "../types";
+
+export interface MeasurementComponent {
+    id: string;
+    label: string;
+    unit: string;
+    normal?: [number, number]; // Inclusive reference range, readings outside it are highlighted
+    optional?: boolean;
+    step: number; // Input precision
+}
+
+export interface MeasurementKindInfo {
+    label: string;
+    icon: string; // FontAwesome class suffix
+    components: MeasurementComponent[];
+}
+
+// Reference ranges are the usual adult ones and only drive highlighting, they are not medical advice
+export const MEASUREMENT_KINDS: Record<MeasurementKind, MeasurementKindInfo> = {
+    glucose: {
+        label: '血糖', icon: 'droplet',
+        components: [{ id: 'value', label: '血糖', unit: 'mmol/L', normal: [3.9, 7.8], step: 0.1 }]
+    },
+    bloodPressure: {
+        label: '血压', icon: 'heart-pulse',
+        components: [
+            { id: 'systolic', label: '收缩压', unit: 'mmHg', normal: [90, 139], step: 1 },
+            { id: 'diastolic', label: '舒张压', unit: 'mmHg', normal: [60, 89], step: 1 },
+            { id: 'pulse', label: '脉搏', unit: '次/分', normal: [60, 100], optional: true, step: 1 }
+        ]
+    },
+    weight: {
+        label: '体重', icon: 'weight-scale',
+        components: [{ id: 'value', label: '体重', unit: 'kg', step: 0.1 }]
+    },
+    temperature: {
+        label: '体温', icon: 'temperature-half',
+        components: [{ id: 'value', label: '体温', unit: '℃', normal: [36.0, 37.3], step: 0.1 }]
+    }
+};
+
+export const MEASUREMENT_KIND_ORDER: MeasurementKind[] = ['bloodPressure', 'glucose', 'weight', 'temperature'];
+
+export const isOutOfRange = (component: MeasurementComponent, value: number): boolean => {
+    return !!component.normal && (value < component.normal[0] || value > component.normal[1]);
+};
+
+export const hasOutOfRange = (measurement: Measurement): boolean => {
+    return MEASUREMENT_KINDS[measurement.kind].components.some(c => {
+        const value = measurement.values[c.id];
+        return value !== undefined && isOutOfRange(c, value);
+    });
+};
+
+// Turns the form's strings into a reading. Null when a required component is missing or not a number.
+export const parseReading = (kind: MeasurementKind, raw: { [component: string]: string }): { [component: string]: number } | null => {
+    const values: { [component: string]: number } = {};
+    for (const c of MEASUREMENT_KINDS[kind].components) {
+        const text = raw[c.id]?.trim();
+        if (!text) {
+            if (c.optional) continue;
+            return null;
+        }
+        const value = parseFloat(text);
+        if (!Number.isFinite(value) || value <= 0) return null;
+        values[c.id] = value;
+    }
+    return values;
+};
+
+// "128/82 mmHg 脉搏72" for blood pressure, "6.2 mmol/L" otherwise
+export const formatMeasurement = (measurement: Measurement): string => {
+    const v = measurement.values;
+    if (measurement.kind === 'bloodPressure') {
+        return `${v.systolic}/${v.diastolic} mmHg${v.pulse !== undefined ? ` 脉搏${v.pulse}` : ''}`;
+    }
+    const [component] = MEASUREMENT_KINDS[measurement.kind].components;
+    return `${v.value} ${component.unit}`;
+};
+
+const formatLocal = (at: number): { date: string; time: string } => {
+    const d = new Date(at);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return {
+        date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+        time: `${pad(d.getHours())}:${pad(d.getMinutes())}`
+    };
+};
+
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per component, oldest first. Starts with a BOM so Excel reads the Chinese headers correctly.
+export const measurementsToCsv = (measurements: Measurement[], users: User[]): string => {
+    const rows: (string | number)[][] = [['日期', '时间', '成员', '项目', '数值', '单位', '参考范围', '是否异常']];
+
+    [...measurements].sort((a, b) => a.at - b.at).forEach(m => {
+        const { date, time } = formatLocal(m.at);
+        const member = users.find(u => u.id === m.userId)?.name || '';
+        MEASUREMENT_KINDS[m.kind].components.forEach(c => {
+            const value = m.values[c.id];
+            if (value === undefined) return;
+            rows.push([
+                date, time, member, c.label, value, c.unit,
+                c.normal ? `${c.normal[0]}-${c.normal[1]}` : '',
+                isOutOfRange(c, value) ? '是' : ''
+            ]);
+        });
+    });
+
+    return '\uFEFF' + rows.map(r => r.map(csvCell).join(',')).join('\r\n');
+};
@@ -0,0 +1,79 @@
+import { Medication, Reminder, User } from "../types";
+import { REFILL_REMINDER_TIME } from "../constants";
+import { getEffectiveRule } from "./recurrence";
+import { getReminderTimes } from "./reminderSlots";
+
+// Average intakes per day of one reminder's schedule, 0 for one-off reminders
+export const getDailyIntakes = (reminder: Reminder): number => {
+    const rule = getEffectiveRule(reminder);
+    if (!rule) return 0;
+
+    const slots = getReminderTimes(reminder).length;
+    const interval = rule.interval || 1;
+    const weekdays = rule.byWeekday?.length || 0;
+
+    switch (rule.freq) {
+        case 'daily': {
+            const share = weekdays > 0 ? weekdays / 7 : rule.dayFilter === 'workday' ? 5 / 7 : rule.dayFilter === 'nonworkday' ? 2 / 7 : 1;
+            return slots * share / interval;
+        }
+        case 'weekly': return slots * Math.max(1, weekdays) / 7 / interval;
+        case 'monthly': return slots * Math.max(1, rule.byMonthDay?.length || 0) / 30 / interval;
+        case 'yearly': return slots / 365 / interval;
+    }
+};
+
+// Units used per day. Only the newest instance of each series counts, older ones have already spawned it.
+export const getDailyUsage = (medication: Medication, reminders: Reminder[]): number => {
+    const intakes = reminders
+        .filter(r => r.medicationId === medication.id && !r.hasSpawnedNext)
+        .reduce((sum, r) => sum + getDailyIntakes(r), 0);
+    return intakes * medication.dose;
+};
+
+// Whole days the stock lasts at the current schedule, null when nothing recurring draws from it
+export const getDaysLeft = (medication: Medication, reminders: Reminder[]): number | null => {
+    const usage = getDailyUsage(medication, reminders);
+    return usage > 0 ? Math.floor(medication.stock / usage) : null;
+};
+
+export const isRunningLow = (medication: Medication, reminders: Reminder[]): boolean => {
+    const daysLeft = getDaysLeft(medication, reminders);
+    return daysLeft !== null && daysLeft < medication.refillDays;
+};
+
+// Takes `intakes` doses out of the stock, a negative count puts them back
+export const adjustStock = (medication: Medication, intakes: number): Medication => ({
+    ...medication,
+    stock: Math.max(0, medication.stock - intakes * medication.dose)
+});
+
+// Low on supply and no refill reminder still open
+export const needsRefillReminder = (medication: Medication, reminders: Reminder[]): boolean => {
+    const open = medication.refillReminderId && reminders.some(r => r.id === medication.refillReminderId && !r.isCompleted);
+    return !open && isRunningLow(medication, reminders);
+};
+
+// One-off "买药" reminder for the caregiver, today at REFILL_REMINDER_TIME or tomorrow if that has passed
+export const createRefillReminder = (medication: Medication, patient: User | undefined, now: Date, id: string): Reminder => {
+    const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + (currentTime < REFILL_REMINDER_TIME ? 0 : 1));
+    const date = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+
+    return {
+        id,
+        userId: medication.caregiverId || medication.userId,
+        title: `买药：${patient ? patient.name + '的' : ''}${medication.name}`,
+        time: REFILL_REMINDER_TIME,
+        date,
+        isCompleted: false,
+        type: 'general',
+        recurrence: 'once'
+    };
+};
+
+// Short stock line for cards and the assistant, e.g. "剩 28 粒，约 14 天"
+export const describeStock = (medication: Medication, reminders: Reminder[]): string => {
+    const daysLeft = getDaysLeft(medication, reminders);
+    return `剩 ${medication.stock} 粒${daysLeft !== null ? `，约 ${daysLeft} 天` : ''}`;
+};
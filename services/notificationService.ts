@@ -0,0 +1,88 @@
+import { Reminder, User } from "../types";
+import { UpcomingAlarm } from "./scheduler";
+import { slotKey } from "./reminderSlots";
+import { AlarmVolume } from "./quietHours";
+
+// What the page hands to sw.js. The worker keeps no state of its own beyond this list.
+export interface ScheduledNotification {
+    tag: string; // Slot key, so a re-sent schedule replaces a notification instead of duplicating it
+    title: string;
+    body: string;
+    at: number;
+    silent: boolean; // Quiet hours and do-not-disturb
+    reminderId: string;
+    time: string;
+}
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+// How far ahead the worker is told about. The page re-sends the schedule whenever reminders change.
+export const NOTIFICATION_HORIZON_MS = 48 * 3600000;
+
+const PERIODIC_SYNC_TAG = 'alarm-check';
+
+export const isNotificationSupported = (): boolean => {
+    return typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+};
+
+export const getNotificationPermission = (): NotificationPermissionState => {
+    return isNotificationSupported() ? Notification.permission : 'unsupported';
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+    if (!isNotificationSupported()) return 'unsupported';
+    return Notification.requestPermission();
+};
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+    try {
+        const registration = await navigator.serviceWorker.register('/sw.js');
+        // Lets the worker wake up now and then where Notification Triggers aren't available (installed PWAs only)
+        try {
+            await (registration as any).periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60000 });
+        } catch {}
+        return registration;
+    } catch (e) {
+        console.warn("Service worker registration failed:", e);
+        return null;
+    }
+};
+
+export const buildNotificationSchedule = (
+    alarms: UpcomingAlarm[],
+    users: User[],
+    getVolume: (reminder: Reminder, at: number) => AlarmVolume
+): ScheduledNotification[] => {
+    return alarms.map(({ reminder, at }) => {
+        const user = users.find(u => u.id === reminder.userId);
+        return {
+            tag: slotKey(reminder),
+            title: `${user?.avatar || '⏰'} ${user ? user.name : '家人'}：${reminder.title}`,
+            body: `${reminder.date} ${reminder.time} · 点击打开提醒`,
+            at,
+            silent: getVolume(reminder, at) === 'silent',
+            reminderId: reminder.id,
+            time: reminder.time
+        };
+    });
+};
+
+// The worker replaces whatever schedule it had with this one
+export const syncNotificationSchedule = async (schedule: ScheduledNotification[]) => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'schedule', notifications: schedule });
+};
+
+// Tapping a notification opens "/?alarm=<id>&time=<HH:mm>", or messages an open window with the same fields
+export interface AlarmLink {
+    reminderId: string;
+    time?: string;
+}
+
+export const parseAlarmLink = (search: string): AlarmLink | null => {
+    const params = new URLSearchParams(search);
+    const reminderId = params.get('alarm');
+    return reminderId ? { reminderId, time: params.get('time') || undefined } : null;
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ParsedReminder, User } from '../types';
+import { DEFAULT_REMINDER_TYPES } from '../constants';
+import { parseReminderOffline } from './offlineParser';
+
+const users: User[] = [
+    { id: 'u1', name: '爷爷', avatar: '👴', color: 'bg-blue-500' },
+    { id: 'u2', name: '奶奶', avatar: '👵', color: 'bg-emerald-500' }
+];
+
+// Thursday 2026-01-15 10:00 on the device clock
+const now = new Date(2026, 0, 15, 10, 0);
+
+const parse = (text: string) => parseReminderOffline(text, { users, currentUserId: 'u1', types: DEFAULT_REMINDER_TYPES, now });
+
+const parseOne = (text: string): ParsedReminder => {
+    const response = parse(text);
+    expect(response.action).toBe('create_reminder');
+    return response.reminders![0];
+};
+
+describe('parseReminderOffline', () => {
+    it('reads member, date, time and type', () => {
+        expect(parseOne('明天早上八点提醒奶奶吃药')).toMatchObject({
+            title: '吃药', time: '08:00', date: '2026-01-16', targetUser: '奶奶', type: 'medication', recurrence: 'once'
+        });
+    });
+
+    it('reads daily reminders', () => {
+        expect(parseOne('每天晚上九点量血压')).toMatchObject({ time: '21:00', recurrence: 'daily', type: 'blood-pressure' });
+        expect(parseOne('天天早上散步')).toMatchObject({ time: '08:00', recurrence: 'daily' });
+    });
+
+    describe('date words ending in 天', () => {
+        it('does not read "今天天气" as a daily reminder', () => {
+            expect(parse('今天天气怎么样')).toMatchObject({ action: 'chat_response' });
+        });
+
+        it('keeps the day word as a date', () => {
+            expect(parseOne('明天天亮前提醒我浇花')).toMatchObject({ date: '2026-01-16', recurrence: 'once' });
+            expect(parseOne('后天天坛公园门口集合，提醒我')).toMatchObject({ date: '2026-01-17', recurrence: 'once' });
+        });
+    });
+
+    describe('twelve o\'clock', () => {
+        it('reads 晚上十二点 as midnight at the end of the day', () => {
+            expect(parseOne('今天晚上十二点提醒我关燃气')).toMatchObject({ time: '00:00', date: '2026-01-16' });
+            expect(parseOne('明晚十二点半提醒我收衣服')).toMatchObject({ time: '00:30', date: '2026-01-17' });
+        });
+
+        it('reads 中午十二点 as noon', () => {
+            expect(parseOne('明天中午十二点提醒爷爷吃饭')).toMatchObject({ time: '12:00', date: '2026-01-16' });
+        });
+
+        it('reads 凌晨十二点 as the midnight that starts the day', () => {
+            expect(parseOne('明天凌晨十二点提醒我抢票')).toMatchObject({ time: '00:00', date: '2026-01-16' });
+        });
+
+        it('reads a bare 十二点 as noon', () => {
+            expect(parseOne('十二点提醒我吃饭')).toMatchObject({ time: '12:00', date: '2026-01-15' });
+        });
+    });
+
+    it('answers small talk with the offline hint', () => {
+        expect(parse('你好').action).toBe('chat_response');
+        expect(parse('明天会下雨吗').action).toBe('chat_response');
+    });
+});
@@ -0,0 +1,276 @@
+import { AIResponse, ConversationTurn, ParsedReminder, RecurrenceRule, ReminderTypeDefinition, User, Weekday } from "../types";
+import { getFirstOccurrenceOnOrAfter } from "./recurrence";
+
+// Rule-based parser for everyday Chinese reminder phrasings. Used when no AI provider is configured or reachable,
+// so it only understands "create a reminder" and answers everything else with a hint. Deterministic for a given `now`.
+
+export interface OfflineParseOptions {
+    users: User[];
+    currentUserId: string; // 'all' in the family view
+    types: ReminderTypeDefinition[];
+    now: Date;
+    history?: ConversationTurn[]; // Lets "爷爷" answer an earlier "请问是提醒谁？"
+}
+
+type Period = 'dawn' | 'morning' | 'forenoon' | 'noon' | 'afternoon' | 'dusk' | 'evening';
+
+const NUM = '(?:\\d+|[零〇一二两三四五六七八九十]+)';
+const WEEKDAY_CHARS = '[一二三四五六日天1-7]';
+
+const PERIOD_WORDS: { [word: string]: Period } = {
+    凌晨: 'dawn', 早上: 'morning', 早晨: 'morning', 清晨: 'morning', 早: 'morning', 上午: 'forenoon', 中午: 'noon',
+    下午: 'afternoon', 傍晚: 'dusk', 晚上: 'evening', 夜里: 'evening', 夜间: 'evening', 晚: 'evening'
+};
+const PERIOD_PATTERN = '凌晨|早上|早晨|清晨|上午|中午|下午|傍晚|晚上|夜里|夜间';
+
+// Time used when only the part of the day is given ("明天早上")
+const PERIOD_DEFAULT_TIME: Record<Period, string> = {
+    dawn: '06:00', morning: '08:00', forenoon: '09:00', noon: '12:00', afternoon: '15:00', dusk: '18:00', evening: '20:00'
+};
+
+const DAY_OFFSETS: { [word: string]: number } = { 今天: 0, 今日: 0, 明天: 1, 明日: 1, 后天: 2, 大后天: 3 };
+
+// Type ids picked by keyword, only used when the household has that type
+const TYPE_KEYWORDS: [RegExp, string][] = [
+    [/血糖/, 'glucose'],
+    [/血压/, 'blood-pressure'],
+    [/医院|复查|复诊|看病|就诊|挂号|体检/, 'appointment'],
+    [/药|胶囊|片剂/, 'medication'],
+    [/跑步|散步|运动|锻炼|健身|游泳|打球|瑜伽|广场舞|太极/, 'activity']
+];
+
+// Words around the task that aren't part of it
+const FILLER_PATTERN = /提醒|记得|记住|别忘了|别忘记|不要忘了|一下|帮我|麻烦|请|叫|让|到时候|的时候|设置|设个|定个|闹钟/g;
+
+const UNSUPPORTED_PATTERN = /取消|删除|删掉|改到|改成|推迟|提前到|有什么安排|有哪些|还剩|几点有/;
+
+// Questions ("今天天气怎么样") are small talk unless they ask for a reminder
+const QUESTION_PATTERN = /怎么样|怎样|什么|多少|为什么|吗|呢|[?？]$/;
+
+const OFFLINE_HINT = '离线模式只能添加提醒，请这样说："明天早上八点提醒爷爷吃药"、"每天晚上九点提醒奶奶量血压"。';
+
+const CHINESE_DIGITS: { [c: string]: number } = { 零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+
+// "8", "八", "十二", "二十三", "三十" -> number
+const toNumber = (text: string): number => {
+    if (/^\d+$/.test(text)) return parseInt(text, 10);
+    const ten = text.indexOf('十');
+    if (ten === -1) return text.split('').reduce((n, c) => n * 10 + (CHINESE_DIGITS[c] ?? 0), 0);
+    const tens = ten === 0 ? 1 : CHINESE_DIGITS[text[ten - 1]] ?? 1;
+    const ones = ten === text.length - 1 ? 0 : CHINESE_DIGITS[text[ten + 1]] ?? 0;
+    return tens * 10 + ones;
+};
+
+const toWeekday = (c: string): Weekday => {
+    const index = '日天'.includes(c) ? 0 : /\d/.test(c) ? parseInt(c, 10) % 7 : toNumber(c) % 7;
+    return (['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as Weekday[])[index];
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const formatTime = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+// 12-hour spoken time to 24h. Without a part of the day, 1-6 o'clock is read as afternoon ("三点开会").
+// "晚上十二点" and "二十四点" are the midnight that ends the day, so they fall on the next one.
+const toClock = (hour: number, minute: number, period?: Period): { time: string; nextDay: boolean } => {
+    const m = pad(Math.min(59, minute));
+    if (hour === 24 || (period === 'evening' && hour === 12)) return { time: `00:${m}`, nextDay: true };
+
+    let h = hour;
+    if (period === 'afternoon' || period === 'dusk' || period === 'evening') {
+        if (h < 12) h += 12;
+    } else if (period === 'noon') {
+        // "中午十二点" stays noon, "中午一点" is 13:00
+        if (h <= 3) h += 12;
+    } else if (period === 'dawn') {
+        // "凌晨十二点" is the midnight that starts the day
+        if (h === 12) h = 0;
+    } else if (!period && h >= 1 && h <= 6) {
+        h += 12;
+    }
+    return { time: `${pad(h)}:${m}`, nextDay: false };
+};
+
+// Matches are taken left to right per pattern. Characters already claimed by an earlier pattern are skipped,
+// and everything claimed is left out of the title.
+class Scanner {
+    private taken: boolean[];
+
+    constructor(readonly text: string) {
+        this.taken = new Array(text.length).fill(false);
+    }
+
+    take(pattern: RegExp, onMatch: (m: RegExpExecArray) => boolean | void) {
+        const re = new RegExp(pattern.source, 'g');
+        let m: RegExpExecArray | null;
+        while ((m = re.exec(this.text))) {
+            if (m[0].length === 0) { re.lastIndex++; continue; }
+            const start = m.index;
+            const end = start + m[0].length;
+            if (this.taken.slice(start, end).some(Boolean)) continue;
+            if (onMatch(m) === false) continue;
+            for (let i = start; i < end; i++) this.taken[i] = true;
+        }
+    }
+
+    rest(): string {
+        return this.text.split('').filter((_, i) => !this.taken[i]).join('');
+    }
+}
+
+const parseOnce = (text: string, options: OfflineParseOptions): ParsedReminder | null => {
+    const { users, currentUserId, types, now } = options;
+    const scanner = new Scanner(text);
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    let at: Date | null = null; // Absolute moment from "半小时后"
+    let date: Date | null = null;
+    let rule: RecurrenceRule | null = null;
+    let dayPeriod: Period | undefined;
+    const times: string[] = [];
+    let nextDay = true; // Every clock time given is a midnight that ends the day
+    let member: User | undefined;
+
+    // Relative: "半小时后", "十分钟以后", "一个半小时之后"
+    scanner.take(new RegExp(`(${NUM}|半)个?(半)?(小时|钟头|分钟|分)(?:之后|以后|后)`), m => {
+        const amount = m[1] === '半' ? 0.5 : toNumber(m[1]) + (m[2] ? 0.5 : 0);
+        const minutes = m[3] === '小时' || m[3] === '钟头' ? amount * 60 : amount;
+        at = new Date(now.getTime() + Math.round(minutes) * 60000);
+    });
+
+    // Recurrence
+    scanner.take(/(?:每个?|逢)?(?:周一到周五|星期一到星期五|周一至周五)/, () => { rule = { freq: 'weekly', byWeekday: ['MO', 'TU', 'WE', 'TH', 'FR'] }; });
+    scanner.take(/(?:每个|每逢)?(?:工作日|上班日|上班的日子)/, () => { rule = { freq: 'daily', dayFilter: 'workday' }; });
+    scanner.take(/(?:每个|每逢)?(?:休息日|节假日|双休日)/, () => { rule = { freq: 'daily', dayFilter: 'nonworkday' }; });
+    scanner.take(new RegExp(`每(?:周|星期|礼拜)((?:[、和,，]?(?:周|星期)?${WEEKDAY_CHARS})*)`), m => {
+        const days = Array.from(new Set((m[1].match(new RegExp(WEEKDAY_CHARS, 'g')) || []).map(toWeekday)));
+        rule = days.length > 0 ? { freq: 'weekly', byWeekday: days } : { freq: 'weekly' };
+    });
+    scanner.take(new RegExp(`每个?月(?:(${NUM})(?:号|日))?`), m => {
+        rule = m[1] ? { freq: 'monthly', byMonthDay: [toNumber(m[1])] } : { freq: 'monthly' };
+    });
+    scanner.take(/每年/, () => { rule = { freq: 'yearly' }; });
+    scanner.take(new RegExp(`每(隔)?(${NUM})天`), m => {
+        const n = toNumber(m[2]) + (m[1] ? 1 : 0);
+        rule = n > 1 ? { freq: 'daily', interval: n } : { freq: 'daily' };
+    });
+    // "天天" must not be read out of "今天天气" or "明天天亮"
+    scanner.take(/每天|每日|(?<![今明后昨每])天天|每(早|晚)/, m => {
+        rule = { freq: 'daily' };
+        if (m[1]) dayPeriod = PERIOD_WORDS[m[1]];
+    });
+
+    // Dates
+    scanner.take(/(今|明)(早|晚)/, m => {
+        date = addDays(today, m[1] === '明' ? 1 : 0);
+        dayPeriod = PERIOD_WORDS[m[2]];
+    });
+    scanner.take(/大后天|今天|今日|明天|明日|后天/, m => { date = addDays(today, DAY_OFFSETS[m[0]]); });
+    scanner.take(new RegExp(`(下下|下|这|本)?个?(?:周|星期|礼拜)(${WEEKDAY_CHARS})`), m => {
+        const target = toWeekday(m[2]);
+        const index = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'].indexOf(target);
+        // Weeks start on Monday: days since this week's Monday
+        const monday = addDays(today, -((today.getDay() + 6) % 7));
+        const offset = (index + 6) % 7;
+        const weeks = m[1] === '下下' ? 2 : m[1] === '下' ? 1 : 0;
+        let result = addDays(monday, weeks * 7 + offset);
+        if (!m[1] && result < today) result = addDays(result, 7);
+        date = result;
+    });
+    scanner.take(new RegExp(`(${NUM})月(${NUM})(?:号|日)`), m => {
+        let result = new Date(today.getFullYear(), toNumber(m[1]) - 1, toNumber(m[2]));
+        if (result < today) result = new Date(today.getFullYear() + 1, toNumber(m[1]) - 1, toNumber(m[2]));
+        date = result;
+    });
+    scanner.take(new RegExp(`(${NUM})(?:号|日)`), m => {
+        const day = toNumber(m[1]);
+        if (day < 1 || day > 31) return false;
+        let result = new Date(today.getFullYear(), today.getMonth(), day);
+        if (result < today) result = new Date(today.getFullYear(), today.getMonth() + 1, day);
+        date = result;
+    });
+
+    // Clock times, each may carry its own part of the day ("早上八点和晚上八点"). One without inherits the previous.
+    let lastPeriod: Period | undefined = dayPeriod;
+    scanner.take(new RegExp(`(${PERIOD_PATTERN})?(${NUM})(?:点|时|:|：)(?:(${NUM})分?|(半)|(一刻)|(三刻)|整)?(?:钟)?`), m => {
+        const hour = toNumber(m[2]);
+        if (hour > 24) return false;
+        const period = m[1] ? PERIOD_WORDS[m[1]] : lastPeriod;
+        const minute = m[3] ? toNumber(m[3]) : m[4] ? 30 : m[5] ? 15 : m[6] ? 45 : 0;
+        lastPeriod = period;
+        const clock = toClock(hour, minute, period);
+        times.push(clock.time);
+        nextDay = nextDay && clock.nextDay;
+    });
+    scanner.take(new RegExp(PERIOD_PATTERN), m => {
+        if (!dayPeriod) dayPeriod = PERIOD_WORDS[m[0]];
+    });
+
+    // Members, longest name first so "小明" isn't read as "明" and so on
+    [...users].sort((a, b) => b.name.length - a.name.length).forEach(u => {
+        scanner.take(new RegExp(u.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')), () => { if (!member) member = u; });
+    });
+    scanner.take(/我自己|我们|咱们|我/, () => {
+        if (!member && currentUserId !== 'all') member = users.find(u => u.id === currentUserId);
+    });
+
+    const title = scanner.rest()
+        .replace(FILLER_PATTERN, '')
+        .replace(/[\s，,。.！!？?；;：:、~]/g, '')
+        .replace(/^(?:和|跟|与|及|的|在|要|去做|做)+/, '')
+        .replace(/(?:和|跟|与|及|的|了|吧|啊|呀|哦)+$/, '');
+    // Without any time words or an explicit "提醒" it's small talk, not a reminder
+    const hasSchedule = at || rule || date || times.length > 0 || dayPeriod;
+    const asksForReminder = /提醒|记得|别忘/.test(text);
+    if (!title || (!hasSchedule && !asksForReminder) || (QUESTION_PATTERN.test(text) && !asksForReminder)) return null;
+
+    // Moment
+    const relative = at as Date | null;
+    let day: Date = relative ? new Date(relative.getFullYear(), relative.getMonth(), relative.getDate()) : (date || today);
+    if (!relative && times.length > 0 && nextDay) day = addDays(day, 1);
+    const slots = relative ? [formatTime(relative)] : times.length > 0 ? Array.from(new Set(times)).sort()
+        : dayPeriod ? [PERIOD_DEFAULT_TIME[dayPeriod]]
+        : [formatTime(new Date(now.getTime() + 5 * 60000))];
+    const recurrence = rule as RecurrenceRule | null;
+
+    const passed = formatDate(day) === formatDate(today) && slots[slots.length - 1] <= formatTime(now);
+    if (recurrence) {
+        const from = formatDate(passed && !date ? addDays(today, 1) : day);
+        const first = getFirstOccurrenceOnOrAfter(from, recurrence);
+        if (first) day = new Date(Number(first.slice(0, 4)), Number(first.slice(5, 7)) - 1, Number(first.slice(8, 10)));
+    } else if (passed && !date && !relative) {
+        // "八点提醒我" said at nine means tomorrow
+        day = addDays(today, 1);
+    }
+
+    const typeId = TYPE_KEYWORDS.find(([re, id]) => re.test(title) && types.some(t => t.id === id))?.[1]
+        || (types.some(t => t.id === 'general') ? 'general' : types[0]?.id || 'general');
+
+    return {
+        title,
+        time: slots[0],
+        times: slots.length > 1 ? slots : undefined,
+        date: formatDate(day),
+        targetUser: (member as User | undefined)?.name,
+        type: typeId,
+        recurrence: recurrence && !recurrence.interval && !recurrence.byWeekday && !recurrence.byMonthDay && !recurrence.dayFilter ? recurrence.freq : 'once',
+        rule: recurrence && (recurrence.interval || recurrence.byWeekday || recurrence.byMonthDay || recurrence.dayFilter) ? recurrence : undefined
+    };
+};
+
+export const parseReminderOffline = (text: string, options: OfflineParseOptions): AIResponse => {
+    if (UNSUPPORTED_PATTERN.test(text)) return { action: 'chat_response', replyText: OFFLINE_HINT };
+
+    let parsed = parseOnce(text, options);
+    // A bare answer ("爷爷", "八点") completes the previous request of the conversation
+    if (!parsed) {
+        const previous = [...(options.history || [])].reverse().find(t => t.role === 'user');
+        if (previous) parsed = parseOnce(`${previous.text}，${text}`, options);
+    }
+    if (!parsed) return { action: 'chat_response', replyText: OFFLINE_HINT };
+    return { action: 'create_reminder', reminders: [parsed] };
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { isTransientError, runWithFallback } from './providerChain';
+
+describe('isTransientError', () => {
+    it('retries network failures of fetch', () => {
+        expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isTransientError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true);
+        expect(isTransientError(new TypeError('Load failed'))).toBe(true);
+        expect(isTransientError(new TypeError('fetch failed'))).toBe(true);
+    });
+
+    it('does not retry other TypeErrors', () => {
+        expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'content')"))).toBe(false);
+        expect(isTransientError(new TypeError('response.json is not a function'))).toBe(false);
+    });
+
+    it('retries rate limits, server errors and timeouts', () => {
+        expect(isTransientError({ status: 429 })).toBe(true);
+        expect(isTransientError({ status: 503 })).toBe(true);
+        expect(isTransientError({ status: 408 })).toBe(true);
+        expect(isTransientError(Object.assign(new Error('AI 请求超时'), { transient: true }))).toBe(true);
+    });
+
+    it('does not retry bad keys or a wrong model', () => {
+        expect(isTransientError({ status: 401 })).toBe(false);
+        expect(isTransientError({ status: 404 })).toBe(false);
+    });
+});
+
+describe('runWithFallback', () => {
+    it('moves on after one try when the provider adapter has a bug', async () => {
+        let calls = 0;
+        const answer = await runWithFallback(['custom', 'deepseek'], async provider => {
+            if (provider === 'custom') {
+                calls++;
+                throw new TypeError("Cannot read properties of undefined (reading 'text')");
+            }
+            return 'ok';
+        });
+
+        expect(calls).toBe(1);
+        expect(answer).toMatchObject({ result: 'ok', provider: 'deepseek', attempts: [{ provider: 'custom' }] });
+    });
+});
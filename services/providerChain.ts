@@ -0,0 +1,104 @@
+import { AIProvider, AISettings } from "../types";
+import { AI_RETRY_ATTEMPTS, AI_RETRY_BASE_DELAY_MS, AI_CIRCUIT_FAILURE_THRESHOLD, AI_CIRCUIT_COOLDOWN_MINUTES } from "../constants";
+
+// Runs an assistant request through the active provider and then the configured fallbacks. Transient failures
+// are retried with backoff, and a provider that keeps failing is skipped for a while (circuit breaker).
+// Breaker state is per page load, a reload tries every provider again.
+
+export interface ProviderAttempt {
+    provider: AIProvider;
+    error?: string; // Why it gave up on this provider
+    skipped?: boolean; // Not tried, the breaker is open
+}
+
+export interface ProviderAnswer<T> {
+    result: T;
+    provider: AIProvider;
+    attempts: ProviderAttempt[]; // Providers given up on before the one that answered
+}
+
+export const PROVIDER_LABELS: Record<AIProvider, string> = {
+    gemini: 'Gemini',
+    deepseek: 'DeepSeek',
+    moonshot: 'Moonshot',
+    siliconflow: 'SiliconFlow',
+    openai: 'OpenAI',
+    custom: '自定义',
+    offline: '离线解析'
+};
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// What a rejected fetch says when the network is down (Chrome, Firefox, Safari, Node). Any other TypeError is a bug.
+const NETWORK_FAILURE_PATTERN = /^(Failed to fetch|NetworkError when attempting to fetch resource\.?|Load failed|fetch failed)$/;
+
+const breakers = new Map<AIProvider, { failures: number; openUntil: number }>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Worth another try: timeouts, rate limits, server errors and dropped connections. Bad keys or a wrong model aren't.
+export const isTransientError = (error: any): boolean => {
+    if (error?.transient) return true;
+    if (TRANSIENT_STATUSES.includes(Number(error?.status))) return true;
+    if (error?.name === 'TypeError' && NETWORK_FAILURE_PATTERN.test(String(error?.message || ''))) return true;
+    return /UNAVAILABLE|RESOURCE_EXHAUSTED|DEADLINE_EXCEEDED|overloaded/i.test(String(error?.message || ''));
+};
+
+export const isProviderConfigured = (settings: AISettings, provider: AIProvider): boolean => {
+    if (provider === 'offline' || !settings.configs?.[provider]) return false;
+    // Gemini may use the key built into the app, a custom endpoint (Ollama) may need none
+    return !!settings.configs[provider].apiKey || provider === 'gemini' || provider === 'custom';
+};
+
+// Active provider first, then the fallbacks in the order set, each once and only when usable
+export const getProviderChain = (settings: AISettings): AIProvider[] => {
+    const ordered = [settings.activeProvider, ...(settings.fallbackProviders || [])];
+    return ordered.filter((p, i) => ordered.indexOf(p) === i && isProviderConfigured(settings, p));
+};
+
+export const isCircuitOpen = (provider: AIProvider, now: number = Date.now()): boolean => {
+    return (breakers.get(provider)?.openUntil || 0) > now;
+};
+
+const recordFailure = (provider: AIProvider, now: number) => {
+    const failures = (breakers.get(provider)?.failures || 0) + 1;
+    // After the cooldown one request gets through, failing it opens the breaker again right away
+    const openUntil = failures >= AI_CIRCUIT_FAILURE_THRESHOLD ? now + AI_CIRCUIT_COOLDOWN_MINUTES * 60000 : 0;
+    breakers.set(provider, { failures, openUntil });
+};
+
+export const runWithFallback = async <T>(chain: AIProvider[], call: (provider: AIProvider) => Promise<T>): Promise<ProviderAnswer<T>> => {
+    const attempts: ProviderAttempt[] = [];
+
+    for (const provider of chain) {
+        if (isCircuitOpen(provider)) {
+            attempts.push({ provider, skipped: true });
+            continue;
+        }
+        for (let retry = 0; ; retry++) {
+            try {
+                const result = await call(provider);
+                breakers.delete(provider);
+                return { result, provider, attempts };
+            } catch (e: any) {
+                if (isTransientError(e) && retry < AI_RETRY_ATTEMPTS) {
+                    console.warn(`${provider} failed, retrying:`, e);
+                    await sleep(AI_RETRY_BASE_DELAY_MS * 2 ** retry);
+                    continue;
+                }
+                recordFailure(provider, Date.now());
+                attempts.push({ provider, error: e?.message || String(e) });
+                break;
+            }
+        }
+    }
+
+    throw Object.assign(new Error(describeAttempts(attempts) || '没有可用的 AI 服务'), { attempts });
+};
+
+// "DeepSeek：AI 请求失败 (503)；SiliconFlow 暂停使用"
+export const describeAttempts = (attempts: ProviderAttempt[]): string => {
+    return attempts
+        .map(a => a.skipped ? `${PROVIDER_LABELS[a.provider]} 暂停使用` : `${PROVIDER_LABELS[a.provider]}：${a.error}`)
+        .join('；');
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ReminderTypeDefinition, User } from '../types';
+import { isInQuietHours, getQuietDeferral, getAlarmVolume, loudestVolume } from './quietHours';
+
+const SHANGHAI = 'Asia/Shanghai';
+const grandpa: User = { id: 'u1', name: '爷爷', avatar: '👴', color: 'bg-blue-500', timeZone: SHANGHAI, quietHours: { start: '22:00', end: '07:00' } };
+const walk: ReminderTypeDefinition = { id: 'activity', label: '活动', icon: 'person-running', color: 'bg-yellow-500' };
+const medication: ReminderTypeDefinition = { ...walk, id: 'medication', critical: true };
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('isInQuietHours', () => {
+    it('handles a window that wraps past midnight', () => {
+        expect(isInQuietHours(grandpa.quietHours, at('2026-01-15T23:00:00+08:00'), SHANGHAI)).toBe(true);
+        expect(isInQuietHours(grandpa.quietHours, at('2026-01-16T06:59:00+08:00'), SHANGHAI)).toBe(true);
+        expect(isInQuietHours(grandpa.quietHours, at('2026-01-16T07:00:00+08:00'), SHANGHAI)).toBe(false);
+        expect(isInQuietHours(grandpa.quietHours, at('2026-01-15T21:59:00+08:00'), SHANGHAI)).toBe(false);
+    });
+
+    it('handles a window within one day', () => {
+        const nap = { start: '13:00', end: '14:30' };
+        expect(isInQuietHours(nap, at('2026-01-15T13:30:00+08:00'), SHANGHAI)).toBe(true);
+        expect(isInQuietHours(nap, at('2026-01-15T14:30:00+08:00'), SHANGHAI)).toBe(false);
+    });
+
+    it('is off without a window or with an empty one', () => {
+        expect(isInQuietHours(undefined, at('2026-01-15T23:00:00+08:00'), SHANGHAI)).toBe(false);
+        expect(isInQuietHours({ start: '22:00', end: '22:00' }, at('2026-01-15T23:00:00+08:00'), SHANGHAI)).toBe(false);
+    });
+
+    it('reads the window in the member\'s zone', () => {
+        // 15:00 UTC is 23:00 in Shanghai
+        expect(isInQuietHours(grandpa.quietHours, at('2026-01-15T15:00:00Z'), SHANGHAI)).toBe(true);
+    });
+});
+
+describe('getQuietDeferral', () => {
+    it('moves a non-critical alarm to the end of the window', () => {
+        expect(getQuietDeferral(grandpa, walk, at('2026-01-15T23:00:00+08:00'))).toBe(at('2026-01-16T07:00:00+08:00'));
+        expect(getQuietDeferral(grandpa, walk, at('2026-01-16T05:00:00+08:00'))).toBe(at('2026-01-16T07:00:00+08:00'));
+    });
+
+    it('lets critical alarms and alarms outside the window ring', () => {
+        expect(getQuietDeferral(grandpa, medication, at('2026-01-15T23:00:00+08:00'))).toBeNull();
+        expect(getQuietDeferral(grandpa, walk, at('2026-01-15T12:00:00+08:00'))).toBeNull();
+    });
+});
+
+describe('getAlarmVolume', () => {
+    const night = at('2026-01-15T23:00:00+08:00');
+    const noon = at('2026-01-15T12:00:00+08:00');
+
+    it('turns critical alarms down and others off in quiet hours', () => {
+        expect(getAlarmVolume(grandpa, medication, false, night)).toBe('reduced');
+        expect(getAlarmVolume(grandpa, walk, false, night)).toBe('silent');
+        expect(getAlarmVolume(grandpa, walk, false, noon)).toBe('normal');
+    });
+
+    it('applies household do-not-disturb at any time', () => {
+        expect(getAlarmVolume(grandpa, walk, true, noon)).toBe('silent');
+        expect(getAlarmVolume(grandpa, medication, true, noon)).toBe('reduced');
+    });
+});
+
+describe('loudestVolume', () => {
+    it('rings at the loudest level allowed', () => {
+        expect(loudestVolume(['silent', 'reduced'])).toBe('reduced');
+        expect(loudestVolume(['silent', 'normal', 'reduced'])).toBe('normal');
+        expect(loudestVolume([])).toBe('silent');
+    });
+});
@@ -0,0 +1,48 @@
+import { QuietHours, ReminderTypeDefinition, User } from "../types";
+import { formatDateInZone, formatTimeInZone, zonedTimeToTimestamp } from "./timeZone";
+
+export type AlarmVolume = 'normal' | 'reduced' | 'silent';
+
+const VOLUME_ORDER: AlarmVolume[] = ['silent', 'reduced', 'normal'];
+
+export const isInQuietHours = (quietHours: QuietHours | undefined, at: number, timeZone?: string): boolean => {
+    if (!quietHours || quietHours.start === quietHours.end) return false;
+    const local = formatTimeInZone(at, timeZone);
+    return quietHours.start < quietHours.end
+        ? local >= quietHours.start && local < quietHours.end
+        : local >= quietHours.start || local < quietHours.end;
+};
+
+// Instant the quiet window covering `at` ends, read in the member's zone
+const getQuietHoursEnd = (quietHours: QuietHours, at: number, timeZone?: string): number => {
+    const today = formatDateInZone(at, timeZone);
+    const end = zonedTimeToTimestamp(today, quietHours.end, timeZone);
+    if (end > at) return end;
+    const [y, m, d] = today.split('-').map(Number);
+    const tomorrow = new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+    return zonedTimeToTimestamp(tomorrow, quietHours.end, timeZone);
+};
+
+// Non-critical alarms due inside the member's quiet hours wait until the window ends.
+// Returns the deferred instant, or null when the alarm may ring at `at`.
+export const getQuietDeferral = (user: User | undefined, type: ReminderTypeDefinition | undefined, at: number): number | null => {
+    if (type?.critical || !user?.quietHours || !isInQuietHours(user.quietHours, at, user.timeZone)) return null;
+    return getQuietHoursEnd(user.quietHours, at, user.timeZone);
+};
+
+// Household do-not-disturb has no end time, so non-critical alarms are shown silently instead of deferred
+export const getAlarmVolume = (
+    user: User | undefined,
+    type: ReminderTypeDefinition | undefined,
+    householdDnd: boolean,
+    at: number
+): AlarmVolume => {
+    const quiet = householdDnd || isInQuietHours(user?.quietHours, at, user?.timeZone);
+    if (!quiet) return 'normal';
+    return type?.critical ? 'reduced' : 'silent';
+};
+
+// Several alarms ring as one, at the loudest level any of them is allowed
+export const loudestVolume = (volumes: AlarmVolume[]): AlarmVolume => {
+    return volumes.reduce<AlarmVolume>((loudest, v) => VOLUME_ORDER.indexOf(v) > VOLUME_ORDER.indexOf(loudest) ? v : loudest, 'silent');
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { RecurrenceRule } from '../types';
+import { getNextOccurrenceDate, getFirstOccurrenceOnOrAfter, describeRule, normalizeRecurrenceRule, isRecurring } from './recurrence';
+
+describe('getNextOccurrenceDate', () => {
+    it('steps weekly rules through the listed weekdays', () => {
+        const rule: RecurrenceRule = { freq: 'weekly', byWeekday: ['MO', 'WE', 'FR'] };
+        expect(getNextOccurrenceDate('2026-01-12', rule)).toBe('2026-01-14'); // Mon -> Wed
+        expect(getNextOccurrenceDate('2026-01-16', rule)).toBe('2026-01-19'); // Fri -> next Mon
+        expect(getNextOccurrenceDate('2026-01-16', { ...rule, interval: 2 })).toBe('2026-01-26');
+    });
+
+    it('picks the nth weekday of the month', () => {
+        expect(getNextOccurrenceDate('2026-01-30', { freq: 'monthly', byWeekday: ['FR'], bySetPos: -1 })).toBe('2026-02-27');
+        expect(getNextOccurrenceDate('2026-01-11', { freq: 'monthly', byWeekday: ['SU'], bySetPos: 2 })).toBe('2026-02-08');
+    });
+
+    it('only repeats Feb 29 in leap years', () => {
+        expect(getNextOccurrenceDate('2024-02-29', { freq: 'yearly' })).toBe('2028-02-29');
+    });
+
+    it('follows the official workday calendar, make-up days included', () => {
+        const workdays: RecurrenceRule = { freq: 'daily', dayFilter: 'workday' };
+        expect(getNextOccurrenceDate('2025-09-26', workdays)).toBe('2025-09-28'); // Sunday make-up day
+        expect(getNextOccurrenceDate('2025-09-30', workdays)).toBe('2025-10-09'); // Over the National Day holiday
+        expect(getNextOccurrenceDate('2025-09-30', { freq: 'daily', dayFilter: 'nonworkday' })).toBe('2025-10-01');
+    });
+
+    it('repeats lunar rules on the lunar date', () => {
+        expect(getNextOccurrenceDate('2025-01-29', { freq: 'yearly', calendar: 'lunar', lunarMonth: 1, lunarDay: 1 })).toBe('2026-02-17');
+    });
+});
+
+describe('getFirstOccurrenceOnOrAfter', () => {
+    it('keeps a matching start date and moves to the next match otherwise', () => {
+        const mondays: RecurrenceRule = { freq: 'weekly', byWeekday: ['MO'] };
+        expect(getFirstOccurrenceOnOrAfter('2026-01-19', mondays)).toBe('2026-01-19');
+        expect(getFirstOccurrenceOnOrAfter('2026-01-15', mondays)).toBe('2026-01-19');
+    });
+});
+
+describe('describeRule', () => {
+    it('reads rules in Chinese', () => {
+        expect(describeRule({ freq: 'weekly', byWeekday: ['MO', 'WE'] })).toBe('每周一、三');
+        expect(describeRule({ freq: 'daily', count: 7 })).toBe('每天，共7天');
+        expect(describeRule({ freq: 'monthly', byMonthDay: [-1], until: '2026-06-30' })).toBe('每月最后一天，至6月30日');
+    });
+});
+
+describe('normalizeRecurrenceRule', () => {
+    it('drops unknown weekdays and a zero interval', () => {
+        expect(normalizeRecurrenceRule({ freq: 'weekly', byWeekday: ['XX', 'MO'], interval: 0 })).toEqual({ freq: 'weekly', byWeekday: ['MO'] });
+    });
+
+    it('rejects input without a frequency', () => {
+        expect(normalizeRecurrenceRule({ interval: 2 })).toBeUndefined();
+        expect(normalizeRecurrenceRule(null)).toBeUndefined();
+    });
+});
+
+describe('isRecurring', () => {
+    it('takes the rule over the preset', () => {
+        expect(isRecurring({ recurrence: 'once' })).toBe(false);
+        expect(isRecurring({ recurrence: 'once', rule: { freq: 'daily' } })).toBe(true);
+    });
+});
@@ -0,0 +1,315 @@
+import { Reminder, RecurrenceRule, RecurrencePreset, Weekday } from "../types";
+import { toLunarDate, getLunarAnniversary, formatLunarDate } from "./lunar";
+import { isWorkday } from "./holidays";
+
+// Index matches Date.getUTCDay()
+export const WEEKDAY_CODES: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+    MO: '一', TU: '二', WE: '三', TH: '四', FR: '五', SA: '六', SU: '日'
+};
+
+const DAY_FILTER_LABELS = { workday: '法定工作日', nonworkday: '休息日' };
+
+// Display order for pickers (week starts on Monday)
+export const WEEKDAY_ORDER: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WORKWEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const PRESET_LABELS: Record<RecurrencePreset, string> = {
+    once: '一次性', daily: '每天', weekly: '每周', monthly: '每月', yearly: '每年'
+};
+
+const SET_POS_LABELS: Record<string, string> = {
+    '1': '第一个', '2': '第二个', '3': '第三个', '4': '第四个', '-1': '最后一个'
+};
+
+// Dates are handled as UTC midnights so DST shifts never move a "YYYY-MM-DD" across days
+const parseDate = (dateStr: string): Date => {
+    const [y, m, d] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d));
+};
+
+const formatDate = (date: Date): string => {
+    const y = date.getUTCFullYear();
+    const m = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const d = String(date.getUTCDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const addDays = (date: Date, days: number): Date => {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+};
+
+const daysInMonth = (year: number, month: number): number => {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+const sameSet = (a: Weekday[], b: Weekday[]) => a.length === b.length && a.every(d => b.includes(d));
+
+// A rule that only bounds one of the five presets (no INTERVAL / BY* parts)
+export const isPresetRule = (rule: RecurrenceRule): boolean => {
+    return !rule.interval && !rule.byWeekday?.length && !rule.bySetPos && !rule.byMonthDay?.length && !rule.dayFilter && !isLunarRule(rule);
+};
+
+export const isLunarRule = (rule: RecurrenceRule): boolean => {
+    return rule.calendar === 'lunar' && !!rule.lunarMonth && !!rule.lunarDay;
+};
+
+export const toRecurrenceRule = (preset: RecurrencePreset | undefined): RecurrenceRule | null => {
+    if (!preset || preset === 'once') return null;
+    return { freq: preset };
+};
+
+export const getEffectiveRule = (reminder: Pick<Reminder, 'recurrence' | 'rule'>): RecurrenceRule | null => {
+    return reminder.rule || toRecurrenceRule(reminder.recurrence);
+};
+
+export const isRecurring = (reminder: Pick<Reminder, 'recurrence' | 'rule'>): boolean => {
+    return getEffectiveRule(reminder) !== null;
+};
+
+// Days of the given month matching the rule, ascending. anchorDay is used when the rule has no BY* parts.
+const monthCandidates = (year: number, month: number, rule: RecurrenceRule, anchorDay: number): number[] => {
+    const total = daysInMonth(year, month);
+    let days: number[] = [];
+
+    if (rule.byWeekday && rule.byWeekday.length > 0) {
+        const matching: number[] = [];
+        for (let d = 1; d <= total; d++) {
+            const code = WEEKDAY_CODES[new Date(Date.UTC(year, month, d)).getUTCDay()];
+            if (rule.byWeekday.includes(code)) matching.push(d);
+        }
+        if (rule.bySetPos) {
+            const picked = rule.bySetPos > 0 ? matching[rule.bySetPos - 1] : matching[matching.length + rule.bySetPos];
+            days = picked ? [picked] : [];
+        } else {
+            days = matching;
+        }
+    } else if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+        days = rule.byMonthDay
+            .map(d => (d < 0 ? total + d + 1 : d))
+            .filter(d => d >= 1 && d <= total);
+    } else if (anchorDay <= total) {
+        // RFC 5545: months without the anchor day (e.g. the 31st) are skipped, not clamped
+        days = [anchorDay];
+    }
+
+    return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+// Returns the first date strictly after `dateStr` that matches the rule, or null once the series has
+// run past its UNTIL date. COUNT depends on the instance position and is checked by the caller.
+export const getNextOccurrenceDate = (dateStr: string, rule: RecurrenceRule): string | null => {
+    let next = findNextMatchingDate(dateStr, rule);
+    // Dates rejected by the workday filter are skipped, bounded so a filter that never matches can't hang
+    for (let i = 0; next && !matchesDayFilter(next, rule) && i < 400; i++) {
+        next = findNextMatchingDate(next, rule);
+    }
+    if (!next || !matchesDayFilter(next, rule) || (rule.until && next > rule.until)) return null;
+    return next;
+};
+
+const matchesDayFilter = (dateStr: string, rule: RecurrenceRule): boolean => {
+    if (rule.dayFilter === 'workday') return isWorkday(dateStr);
+    if (rule.dayFilter === 'nonworkday') return !isWorkday(dateStr);
+    return true;
+};
+
+// Lunar yearly rules: same lunar month/day in the next lunar year(s), instead of the same Gregorian date
+const findNextLunarDate = (dateStr: string, rule: RecurrenceRule): string | null => {
+    const current = toLunarDate(dateStr);
+    if (!current) return null;
+    const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+    for (let i = 0; i <= 8; i++) {
+        const next = getLunarAnniversary(current.year + i * interval, rule.lunarMonth!, rule.lunarDay!, !!rule.lunarLeap);
+        if (next && next > dateStr) return next;
+    }
+    return null;
+};
+
+const findNextMatchingDate = (dateStr: string, rule: RecurrenceRule): string | null => {
+    if (isLunarRule(rule)) return findNextLunarDate(dateStr, rule);
+
+    const start = parseDate(dateStr);
+    const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+    switch (rule.freq) {
+        case 'daily': {
+            for (let i = 1; i <= 366; i++) {
+                const next = addDays(start, i * interval);
+                const code = WEEKDAY_CODES[next.getUTCDay()];
+                if (!rule.byWeekday || rule.byWeekday.length === 0 || rule.byWeekday.includes(code)) {
+                    return formatDate(next);
+                }
+            }
+            return null;
+        }
+        case 'weekly': {
+            const days = rule.byWeekday && rule.byWeekday.length > 0
+                ? rule.byWeekday
+                : [WEEKDAY_CODES[start.getUTCDay()]];
+            const offsets = days.map(d => WEEKDAY_ORDER.indexOf(d)).filter(i => i >= 0).sort((a, b) => a - b);
+            if (offsets.length === 0) return null;
+
+            const startOffset = WEEKDAY_ORDER.indexOf(WEEKDAY_CODES[start.getUTCDay()]);
+            const weekStart = addDays(start, -startOffset);
+
+            const laterThisWeek = offsets.find(o => o > startOffset);
+            if (laterThisWeek !== undefined) return formatDate(addDays(weekStart, laterThisWeek));
+            return formatDate(addDays(weekStart, interval * 7 + offsets[0]));
+        }
+        case 'monthly': {
+            const anchorDay = start.getUTCDate();
+            const year = start.getUTCFullYear();
+            const month = start.getUTCMonth();
+
+            const later = monthCandidates(year, month, rule, anchorDay).find(d => d > anchorDay);
+            if (later !== undefined) return formatDate(new Date(Date.UTC(year, month, later)));
+
+            for (let i = 1; i <= 120; i++) {
+                const target = new Date(Date.UTC(year, month + i * interval, 1));
+                const candidates = monthCandidates(target.getUTCFullYear(), target.getUTCMonth(), rule, anchorDay);
+                if (candidates.length > 0) {
+                    return formatDate(new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), candidates[0])));
+                }
+            }
+            return null;
+        }
+        case 'yearly': {
+            const month = start.getUTCMonth();
+            const day = start.getUTCDate();
+            // Feb 29 only recurs in leap years
+            for (let i = 1; i <= 8; i++) {
+                const year = start.getUTCFullYear() + i * interval;
+                if (day <= daysInMonth(year, month)) return formatDate(new Date(Date.UTC(year, month, day)));
+            }
+            return null;
+        }
+    }
+    return null;
+};
+
+const describeBounds = (rule: RecurrenceRule): string => {
+    const parts: string[] = [];
+    if (rule.count) parts.push(rule.freq === 'daily' && !rule.interval ? `共${rule.count}天` : `共${rule.count}次`);
+    if (rule.until) {
+        const [, m, d] = rule.until.split('-').map(Number);
+        parts.push(`至${m}月${d}日`);
+    }
+    return parts.length > 0 ? `，${parts.join('，')}` : '';
+};
+
+export const describeRule = (rule: RecurrenceRule): string => {
+    return describeFrequency(rule) + describeDayFilter(rule) + describeBounds(rule);
+};
+
+// A plain daily rule with a filter is already described as "每个法定工作日" by describeFrequency
+const isPlainDailyFilter = (rule: RecurrenceRule): boolean => {
+    return !!rule.dayFilter && rule.freq === 'daily' && !rule.byWeekday?.length && (rule.interval || 1) === 1;
+};
+
+const describeDayFilter = (rule: RecurrenceRule): string => {
+    if (!rule.dayFilter || isPlainDailyFilter(rule)) return '';
+    return `(仅${DAY_FILTER_LABELS[rule.dayFilter]})`;
+};
+
+const describeFrequency = (rule: RecurrenceRule): string => {
+    const interval = Math.max(1, Math.floor(rule.interval || 1));
+    if (isLunarRule(rule)) {
+        const lunar = formatLunarDate({ month: rule.lunarMonth!, day: rule.lunarDay!, leap: !!rule.lunarLeap });
+        return `${interval > 1 ? `每${interval}年` : '每年'}农历${lunar}`;
+    }
+    const weekdays = rule.byWeekday || [];
+    const dayList = WEEKDAY_ORDER.filter(d => weekdays.includes(d)).map(d => WEEKDAY_LABELS[d]).join('、');
+
+    switch (rule.freq) {
+        case 'daily':
+            if (isPlainDailyFilter(rule)) return `每个${DAY_FILTER_LABELS[rule.dayFilter!]}`;
+            if (sameSet(weekdays, WORKWEEK) && interval === 1) return '每个工作日';
+            if (weekdays.length > 0) return `${interval > 1 ? `每${interval}天` : '每天'}(周${dayList})`;
+            return interval > 1 ? `每${interval}天` : '每天';
+        case 'weekly': {
+            if (sameSet(weekdays, WORKWEEK) && interval === 1) return '每个工作日';
+            const prefix = interval > 1 ? `每${interval}周` : '每周';
+            return weekdays.length > 0 ? `${prefix}${dayList}` : prefix;
+        }
+        case 'monthly': {
+            const prefix = interval > 1 ? `每${interval}个月` : '每月';
+            if (weekdays.length > 0 && rule.bySetPos) {
+                return `${prefix}${SET_POS_LABELS[String(rule.bySetPos)] || `第${rule.bySetPos}个`}周${dayList}`;
+            }
+            if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+                const parts = rule.byMonthDay.map(d => (d === -1 ? '最后一天' : `${d}号`));
+                return `${prefix}${parts.join('、')}`;
+            }
+            return prefix;
+        }
+        case 'yearly':
+            return interval > 1 ? `每${interval}年` : '每年';
+    }
+    return '';
+};
+
+export const describeRecurrence = (reminder: Pick<Reminder, 'recurrence' | 'rule'>): string => {
+    if (reminder.rule) return describeRule(reminder.rule);
+    return PRESET_LABELS[reminder.recurrence || 'once'];
+};
+
+// Sanitizes a rule coming from the AI or an imported backup. Returns undefined if unusable.
+export const normalizeRecurrenceRule = (raw: any): RecurrenceRule | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    if (!['daily', 'weekly', 'monthly', 'yearly'].includes(raw.freq)) return undefined;
+
+    const rule: RecurrenceRule = { freq: raw.freq };
+
+    const interval = Number(raw.interval);
+    if (Number.isFinite(interval) && interval > 1) rule.interval = Math.floor(interval);
+
+    if (Array.isArray(raw.byWeekday)) {
+        const days = raw.byWeekday
+            .map((d: any) => String(d).toUpperCase().slice(0, 2))
+            .filter((d: string): d is Weekday => (WEEKDAY_CODES as string[]).includes(d));
+        if (days.length > 0) rule.byWeekday = Array.from(new Set(days));
+    }
+
+    const setPos = Number(raw.bySetPos);
+    if (rule.byWeekday && Number.isInteger(setPos) && setPos !== 0 && setPos >= -5 && setPos <= 5) {
+        rule.bySetPos = setPos;
+    }
+
+    if (Array.isArray(raw.byMonthDay)) {
+        const days = raw.byMonthDay
+            .map(Number)
+            .filter((d: number) => Number.isInteger(d) && (d === -1 || (d >= 1 && d <= 31)));
+        if (days.length > 0) rule.byMonthDay = days;
+    }
+
+    if (typeof raw.until === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.until)) rule.until = raw.until;
+
+    const count = Number(raw.count);
+    if (Number.isInteger(count) && count >= 1) rule.count = count;
+
+    if (raw.dayFilter === 'workday' || raw.dayFilter === 'nonworkday') rule.dayFilter = raw.dayFilter;
+
+    const lunarMonth = Number(raw.lunarMonth);
+    const lunarDay = Number(raw.lunarDay);
+    if (raw.calendar === 'lunar' && rule.freq === 'yearly' &&
+        Number.isInteger(lunarMonth) && lunarMonth >= 1 && lunarMonth <= 12 &&
+        Number.isInteger(lunarDay) && lunarDay >= 1 && lunarDay <= 30) {
+        rule.calendar = 'lunar';
+        rule.lunarMonth = lunarMonth;
+        rule.lunarDay = lunarDay;
+        if (raw.lunarLeap === true) rule.lunarLeap = true;
+    }
+
+    return rule;
+};
+
+// First date on or after `fromDate` matching the rule. Used when the anchor date comes from the rule
+// itself, e.g. a lunar birthday entered as 农历八月十五.
+export const getFirstOccurrenceOnOrAfter = (fromDate: string, rule: RecurrenceRule): string | null => {
+    const dayBefore = parseDate(fromDate);
+    return getNextOccurrenceDate(formatDate(addDays(dayBefore, -1)), rule);
+};
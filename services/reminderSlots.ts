@@ -0,0 +1,55 @@
+import { Reminder, ReminderTypeDefinition } from "../types";
+import { zonedTimeToTimestamp } from "./timeZone";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// All "HH:mm" slots of a reminder, ascending. Single-time reminders yield [time].
+export const getReminderTimes = (reminder: Pick<Reminder, 'time' | 'times'>): string[] => {
+    if (reminder.times && reminder.times.length > 0) return reminder.times;
+    return [reminder.time];
+};
+
+export const normalizeTimes = (times: string[]): string[] => {
+    return Array.from(new Set(times.filter(t => TIME_PATTERN.test(t)))).sort();
+};
+
+export const isSlotCompleted = (reminder: Reminder, time: string): boolean => {
+    if (reminder.isCompleted) return true;
+    return !!reminder.completedTimes?.includes(time);
+};
+
+export const isSlotResolved = (reminder: Reminder, time: string): boolean => {
+    return isSlotCompleted(reminder, time) || !!reminder.skippedTimes?.includes(time);
+};
+
+// Timestamp at which a slot is due, read in the owner's time zone (device zone when unset)
+export const getSlotDueTime = (reminder: Pick<Reminder, 'date'>, time: string, timeZone?: string): number => {
+    return zonedTimeToTimestamp(reminder.date, time, timeZone);
+};
+
+// Key used to tell apart alarms of the same reminder ringing for different slots
+export const slotKey = (reminder: Pick<Reminder, 'id' | 'time'>): string => `${reminder.id}@${reminder.time}`;
+
+// Reminder's own lead times win, an explicit empty list turns the type default off
+export const getLeadTimes = (reminder: Pick<Reminder, 'leadTimes'>, type?: ReminderTypeDefinition): number[] => {
+    return reminder.leadTimes ?? type?.defaultLeadTimes ?? [];
+};
+
+export const normalizeLeadTimes = (raw: any): number[] | undefined => {
+    if (!Array.isArray(raw)) return undefined;
+    const minutes = raw.map(Number).filter(m => Number.isInteger(m) && m > 0 && m <= 7 * 1440);
+    return Array.from(new Set<number>(minutes)).sort((a, b) => b - a);
+};
+
+export const preAlertKey = (time: string, leadMinutes: number): string => `${time}-${leadMinutes}`;
+
+const CN_COUNTS = ['零', '一', '两', '三', '四', '五', '六', '七', '八', '九', '十'];
+
+const spellCount = (n: number): string => CN_COUNTS[n] || String(n);
+
+// 60 -> "一小时", 1440 -> "一天", 90 -> "90分钟"
+export const describeLeadTime = (minutes: number): string => {
+    if (minutes % 1440 === 0) return `${spellCount(minutes / 1440)}天`;
+    if (minutes % 60 === 0) return `${spellCount(minutes / 60)}小时`;
+    return `${minutes}分钟`;
+};
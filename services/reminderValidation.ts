@@ -0,0 +1,127 @@
+import { ParsedReminder, RecurrencePreset, ReminderChanges, ReminderTypeDefinition, User } from "../types";
+import { findMemberByName } from "./assistantActions";
+import { normalizeRecurrenceRule, toRecurrenceRule, getNextOccurrenceDate } from "./recurrence";
+
+// Checks what the assistant parsed against this household before anything is saved. Fixable slips
+// ("8:0", "20点", a type label instead of its id) are repaired, the rest becomes a question back to the user.
+
+export interface ReminderCheck {
+    reminder: ParsedReminder; // Repaired copy
+    question?: string; // Set when the reminder can't be created as is
+    problem?: 'member' | 'title' | 'time' | 'date'; // What the question is about
+}
+
+// Type words models tend to use instead of the configured ids, and the type labels they stand for
+const TYPE_ALIASES: [RegExp, RegExp][] = [
+    [/^(medication|medicine|pill|drug)s?$|药/i, /药/],
+    [/^(activity|exercise|sport|workout)s?$|运动|锻炼|活动/i, /运动|锻炼|活动/],
+    [/^(appointment|doctor|hospital)s?$|医|复查|看病|就诊/i, /医|复查|看病|就诊|预约/],
+    [/glucose|sugar|血糖/i, /血糖/],
+    [/pressure|血压/i, /血压/]
+];
+
+const RECURRENCE_PRESETS: RecurrencePreset[] = ['once', 'daily', 'weekly', 'monthly', 'yearly'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// "8:0", "8.30", "0830", "20点", "8点半", "8点15分" -> "HH:mm". Null when it isn't a time of day.
+export const normalizeTimeText = (raw?: string): string | null => {
+    const text = String(raw ?? '').trim().replace(/：/g, ':');
+    let m = text.match(/^(\d{1,2})[:.](\d{1,2})(?::\d{1,2})?$/);
+    let hour: number, minute: number;
+    if (m) {
+        hour = Number(m[1]); minute = Number(m[2]);
+    } else if ((m = text.match(/^(\d{1,2})[点时](?:(\d{1,2})分?|(半)|整)?$/))) {
+        hour = Number(m[1]); minute = m[3] ? 30 : Number(m[2] || 0);
+    } else if ((m = text.match(/^(\d{1,2})(\d{2})$/))) {
+        hour = Number(m[1]); minute = Number(m[2]);
+    } else {
+        return null;
+    }
+    if (hour > 23 || minute > 59) return null;
+    return `${pad(hour)}:${pad(minute)}`;
+};
+
+// "2026-10-5", "2026/10/05", "2026年10月5日" -> "YYYY-MM-DD". Null for malformed or impossible dates (02-30).
+export const normalizeDateText = (raw?: string): string | null => {
+    const m = String(raw ?? '').trim().match(/^(\d{4})[-\/.年](\d{1,2})[-\/.月](\d{1,2})日?$/);
+    if (!m) return null;
+    const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Id as given, then by label ("用药"), then by common words for it ("medicine", "吃药"). Falls back to "general", or the first type.
+export const resolveReminderType = (raw: string | undefined, types: ReminderTypeDefinition[]): string => {
+    const text = String(raw ?? '').trim();
+    const lower = text.toLowerCase();
+    const byLabel = (test: (label: string) => boolean) => types.find(t => test(t.label));
+    const match = text && (
+        types.find(t => t.id === text)
+        || types.find(t => t.id.toLowerCase() === lower)
+        || byLabel(label => label === text)
+        || byLabel(label => text.includes(label) || label.includes(text))
+        || TYPE_ALIASES.filter(([word]) => word.test(text)).map(([, label]) => byLabel(l => label.test(l))).find(Boolean)
+    );
+    if (match) return match.id;
+    return types.find(t => t.id === 'general')?.id || types[0]?.id || 'general';
+};
+
+// Recurring reminders dated in the past are moved to their next instance, one-off reminders can't be
+export const validateParsedReminder = (
+    parsed: ParsedReminder,
+    users: User[],
+    types: ReminderTypeDefinition[],
+    today: string
+): ReminderCheck => {
+    const title = String(parsed.title ?? '').trim();
+    const times = Array.from(new Set([parsed.time, ...(parsed.times || [])]
+        .map(normalizeTimeText)
+        .filter((t): t is string => !!t)))
+        .sort();
+    const preset = RECURRENCE_PRESETS.includes(parsed.recurrence as RecurrencePreset) ? parsed.recurrence : 'once';
+    const rule = normalizeRecurrenceRule(parsed.rule) || toRecurrenceRule(preset);
+    let date = parsed.date ? normalizeDateText(parsed.date) : today;
+
+    if (date && date < today && rule) {
+        for (let i = 0; date && date < today && i < 4000; i++) date = getNextOccurrenceDate(date, rule);
+    }
+
+    const reminder: ParsedReminder = {
+        ...parsed,
+        title,
+        time: times[0] || '',
+        times: times.length > 1 ? times : undefined,
+        date: date || '',
+        recurrence: preset,
+        type: resolveReminderType(parsed.type, types)
+    };
+
+    const ask = (problem: ReminderCheck['problem'], question: string): ReminderCheck => ({ reminder, question, problem });
+    if (parsed.targetUser && !findMemberByName(users, parsed.targetUser)) {
+        reminder.targetUser = undefined;
+        return ask('member', `家里没有"${parsed.targetUser}"，请问是提醒谁？（${users.map(u => u.name).join('、')}）`);
+    }
+    if (!title) return ask('title', '请问要提醒做什么？');
+    if (times.length === 0) return ask('time', `请问${title}是几点？`);
+    if (!date) {
+        return ask('date', parsed.date && normalizeDateText(parsed.date)
+            ? `${title}的重复规则在${parsed.date}之后没有日期了，请换一个时间。`
+            : `没听清${title}是哪一天，请再说一下日期。`);
+    }
+    if (date < today) return ask('date', `${date.slice(5)}已经过去了，请问${title}是哪一天？`);
+    return { reminder };
+};
+
+// Same repairs for the changes of an update_reminder answer. Unusable values are dropped.
+export const repairReminderChanges = (changes: ReminderChanges | undefined, today: string): ReminderChanges | undefined => {
+    if (!changes) return changes;
+    const time = changes.time ? normalizeTimeText(changes.time) : null;
+    const date = changes.date ? normalizeDateText(changes.date) : null;
+    return {
+        ...changes,
+        time: time || undefined,
+        date: date && date >= today ? date : undefined
+    };
+};
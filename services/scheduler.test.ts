@@ -0,0 +1,467 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, RecurrenceRule } from '../types';
+import {
+    Clock,
+    SchedulerContext,
+    collectDueAlarms,
+    getNextWakeUp,
+    applyDueAlarms,
+    createNextOccurrence,
+    applyReminderEdit,
+    snoozeReminders,
+    armTimer
+} from './scheduler';
+
+// Clock that only moves when told to, timers fire in order as it passes them
+const createFakeClock = (start: number) => {
+    let now = start;
+    let nextHandle = 1;
+    const timers: { handle: number; at: number; callback: () => void }[] = [];
+
+    const clock: Clock & { advanceTo: (at: number) => void } = {
+        now: () => now,
+        setTimeout: (callback, ms) => {
+            const handle = nextHandle++;
+            timers.push({ handle, at: now + ms, callback });
+            return handle;
+        },
+        clearTimeout: (handle) => {
+            const i = timers.findIndex(t => t.handle === handle);
+            if (i >= 0) timers.splice(i, 1);
+        },
+        advanceTo: (at) => {
+            for (;;) {
+                timers.sort((a, b) => a.at - b.at);
+                const next = timers[0];
+                if (!next || next.at > at) break;
+                timers.shift();
+                now = next.at;
+                next.callback();
+            }
+            now = at;
+        }
+    };
+    return clock;
+};
+
+const NEW_YORK = 'America/New_York';
+
+const createContext = (overrides: Partial<SchedulerContext> = {}): SchedulerContext => ({
+    getGraceMinutes: () => 30,
+    getTimeZone: () => NEW_YORK,
+    getLeadTimes: () => [],
+    getDeferral: () => null,
+    ...overrides
+});
+
+const createReminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+    id: 'r1',
+    userId: 'u1',
+    title: '吃降压药',
+    time: '08:00',
+    date: '2026-01-15',
+    isCompleted: false,
+    type: 'medication',
+    recurrence: 'once',
+    ...overrides
+});
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const MINUTE = 60000;
+
+describe('collectDueAlarms', () => {
+    const context = createContext();
+
+    it('rings a slot once its due time has come', () => {
+        const reminder = createReminder();
+        const due = at('2026-01-15T13:00:00Z'); // 08:00 EST
+
+        expect(collectDueAlarms([reminder], due - 1, context).toFire).toHaveLength(0);
+        expect(collectDueAlarms([reminder], due, context).toFire.map(r => r.time)).toEqual(['08:00']);
+    });
+
+    it('does not ring a slot again after it was reminded', () => {
+        const reminder = createReminder({ remindedAt: { '08:00': at('2026-01-15T13:00:00Z') } });
+        expect(collectDueAlarms([reminder], at('2026-01-15T13:05:00Z'), context).toFire).toHaveLength(0);
+    });
+
+    it('catches up inside the grace window and reports the slot missed after it', () => {
+        const reminder = createReminder();
+
+        const late = collectDueAlarms([reminder], at('2026-01-15T13:29:00Z'), context);
+        expect(late.toFire).toHaveLength(1);
+
+        const tooLate = collectDueAlarms([reminder], at('2026-01-15T13:31:00Z'), context);
+        expect(tooLate.toFire).toHaveLength(0);
+        expect(tooLate.missed).toEqual({ r1: ['08:00'] });
+    });
+
+    it('skips resolved and already missed slots', () => {
+        const reminder = createReminder({ times: ['08:00', '12:00', '20:00'], completedTimes: ['08:00'], skippedTimes: ['12:00'] });
+        const evening = at('2026-01-16T01:00:00Z'); // 20:00 EST
+
+        expect(collectDueAlarms([reminder], evening, context).toFire.map(r => r.time)).toEqual(['20:00']);
+        expect(collectDueAlarms([{ ...reminder, missedTimes: ['20:00'] }], evening, context).toFire).toHaveLength(0);
+    });
+
+    describe('snooze', () => {
+        const snoozeUntil = at('2026-01-15T13:10:00Z');
+        const snoozed = createReminder({
+            times: ['08:00', '20:00'],
+            remindedAt: { '08:00': at('2026-01-15T13:00:00Z') },
+            snoozedUntil: { '08:00': snoozeUntil }
+        });
+
+        it('stays quiet until the snooze expires', () => {
+            expect(collectDueAlarms([snoozed], snoozeUntil - 1, context).toFire).toHaveLength(0);
+        });
+
+        it('rings the snoozed slot when the snooze expires', () => {
+            const due = collectDueAlarms([snoozed], snoozeUntil, context);
+            expect(due.toFire.map(r => r.time)).toEqual(['08:00']);
+        });
+
+        it('clears the snooze once it has rung', () => {
+            const due = collectDueAlarms([snoozed], snoozeUntil, context);
+            const [updated] = applyDueAlarms([snoozed], due, snoozeUntil, () => 'new', context);
+            expect(updated.snoozedUntil).toBeUndefined();
+            expect(updated.remindedAt).toEqual({ '08:00': snoozeUntil });
+            expect(collectDueAlarms([updated], snoozeUntil + MINUTE, context).toFire).toHaveLength(0);
+        });
+
+        it('does not re-fire a snooze that rang less than a minute ago', () => {
+            const justRang = { ...snoozed, remindedAt: { '08:00': snoozeUntil - 30000 } };
+            expect(collectDueAlarms([justRang], snoozeUntil, context).toFire).toHaveLength(0);
+        });
+
+        it('keeps ringing the other slots while one is snoozed', () => {
+            // 08:00 snoozed until 12:30, past the 12:00 slot
+            const meds = createReminder({
+                times: ['08:00', '12:00'],
+                remindedAt: { '08:00': at('2026-01-15T13:00:00Z') },
+                snoozedUntil: { '08:00': at('2026-01-15T17:30:00Z') }
+            });
+            const noon = at('2026-01-15T17:00:00Z');
+
+            expect(getNextWakeUp([meds], at('2026-01-15T13:05:00Z'), context)).toBe(noon);
+            const due = collectDueAlarms([meds], noon, context);
+            expect(due.toFire.map(r => r.time)).toEqual(['12:00']);
+
+            const [rung] = applyDueAlarms([meds], due, noon, () => 'new', context);
+            expect(rung.remindedAt).toEqual({ '08:00': at('2026-01-15T13:00:00Z'), '12:00': noon });
+            expect(rung.snoozedUntil).toEqual({ '08:00': at('2026-01-15T17:30:00Z') });
+            expect(collectDueAlarms([rung], at('2026-01-15T17:30:00Z'), context).toFire.map(r => r.time)).toEqual(['08:00']);
+        });
+
+        it('snoozes only the slots asked for', () => {
+            const meds = createReminder({ times: ['08:00', '12:00'] });
+            const until = at('2026-01-15T17:30:00Z');
+            const [updated] = snoozeReminders([meds], [{ id: 'r1', time: '08:00' }], until);
+            expect(updated.snoozedUntil).toEqual({ '08:00': until });
+            expect(collectDueAlarms([updated], at('2026-01-15T17:00:00Z'), context).toFire.map(r => r.time)).toEqual(['12:00']);
+        });
+
+        it('reads a snooze saved before per-slot tracking', () => {
+            const legacy = createReminder({
+                times: ['08:00', '20:00'],
+                lastRemindedAt: at('2026-01-15T13:00:00Z'),
+                snoozeUntil,
+                snoozedTime: '08:00'
+            });
+            expect(collectDueAlarms([legacy], snoozeUntil - 1, context).toFire).toHaveLength(0);
+            expect(collectDueAlarms([legacy], snoozeUntil, context).toFire.map(r => r.time)).toEqual(['08:00']);
+        });
+
+        it('rings when quiet hours end if the snooze expires inside them', () => {
+            const quietUntil = at('2026-01-15T14:00:00Z');
+            const quiet = createContext({ getDeferral: (_r, ts) => ts < quietUntil ? quietUntil : null });
+            expect(collectDueAlarms([snoozed], snoozeUntil, quiet).toFire).toHaveLength(0);
+            expect(collectDueAlarms([snoozed], quietUntil, quiet).toFire).toHaveLength(1);
+        });
+    });
+
+    describe('daylight saving time', () => {
+        it('moves a slot skipped by spring-forward past the gap', () => {
+            // 2026-03-08 02:00 EST jumps to 03:00 EDT, 02:30 never happens
+            const reminder = createReminder({ date: '2026-03-08', time: '02:30' });
+            const afterGap = at('2026-03-08T07:30:00Z'); // 03:30 EDT
+
+            expect(collectDueAlarms([reminder], afterGap - 1, context).toFire).toHaveLength(0);
+            expect(collectDueAlarms([reminder], afterGap, context).toFire).toHaveLength(1);
+        });
+
+        it('keeps the wall-clock time on the day after spring-forward', () => {
+            const reminder = createReminder({ date: '2026-03-08', time: '08:00' });
+            expect(getNextWakeUp([reminder], at('2026-03-08T00:00:00Z'), context)).toBe(at('2026-03-08T12:00:00Z'));
+        });
+
+        it('rings a slot in the repeated fall-back hour only once', () => {
+            // 2026-11-01 01:00-02:00 happens twice, first in EDT then in EST
+            const reminder = createReminder({ date: '2026-11-01', time: '01:30' });
+            const firstPass = at('2026-11-01T05:30:00Z');
+
+            const due = collectDueAlarms([reminder], firstPass, context);
+            expect(due.toFire).toHaveLength(1);
+
+            const [rung] = applyDueAlarms([reminder], due, firstPass, () => 'new', context);
+            const secondPass = at('2026-11-01T06:30:00Z');
+            expect(collectDueAlarms([rung], secondPass, context).toFire).toHaveLength(0);
+            expect(getNextWakeUp([rung], firstPass, context)).toBeNull();
+        });
+    });
+});
+
+describe('getNextWakeUp', () => {
+    const context = createContext();
+    const now = at('2026-01-15T12:00:00Z'); // 07:00 EST
+
+    it('returns the earliest open slot', () => {
+        const reminders = [
+            createReminder({ id: 'a', time: '09:00' }),
+            createReminder({ id: 'b', times: ['08:30', '21:00'], time: '08:30' })
+        ];
+        expect(getNextWakeUp(reminders, now, context)).toBe(at('2026-01-15T13:30:00Z'));
+    });
+
+    it('ignores completed reminders and resolved slots', () => {
+        const reminders = [
+            createReminder({ id: 'a', isCompleted: true }),
+            createReminder({ id: 'b', times: ['08:00', '12:00'], completedTimes: ['08:00'] })
+        ];
+        expect(getNextWakeUp(reminders, now, context)).toBe(at('2026-01-15T17:00:00Z'));
+    });
+
+    it('wakes up for a pre-alert before the slot', () => {
+        const withLead = createContext({ getLeadTimes: () => [30] });
+        expect(getNextWakeUp([createReminder()], now, withLead)).toBe(at('2026-01-15T12:30:00Z'));
+    });
+
+    it('wakes up when a snooze expires, not for the snoozed slot', () => {
+        const snoozeUntil = at('2026-01-15T12:20:00Z');
+        const reminder = createReminder({ snoozedUntil: { '08:00': snoozeUntil }, remindedAt: { '08:00': now - 10 * MINUTE } });
+        expect(getNextWakeUp([reminder], now, context)).toBe(snoozeUntil);
+    });
+
+    it('returns null when nothing is left to ring', () => {
+        expect(getNextWakeUp([createReminder({ date: '2026-01-14' })], now, context)).toBeNull();
+        expect(getNextWakeUp([], now, context)).toBeNull();
+    });
+});
+
+describe('createNextOccurrence', () => {
+    const next = (overrides: Partial<Reminder>, rule: RecurrenceRule) => createNextOccurrence(createReminder({ ...overrides, rule }), 'next');
+
+    it('starts the next instance fresh', () => {
+        const instance = createNextOccurrence(createReminder({
+            recurrence: 'daily',
+            completedTimes: ['08:00'],
+            isCompleted: true,
+            remindedAt: { '08:00': 1 },
+            snoozedUntil: { '08:00': 2 },
+            autoSnoozeCount: 3,
+            hasSpawnedNext: true
+        }), 'next')!;
+
+        expect(instance).toMatchObject({ id: 'next', date: '2026-01-16', occurrenceIndex: 2, isCompleted: false });
+        expect(instance.completedTimes).toBeUndefined();
+        expect(instance.remindedAt).toBeUndefined();
+        expect(instance.snoozedUntil).toBeUndefined();
+        expect(instance.autoSnoozeCount).toBeUndefined();
+        expect(instance.hasSpawnedNext).toBeUndefined();
+    });
+
+    it('returns null for one-off reminders', () => {
+        expect(createNextOccurrence(createReminder(), 'next')).toBeNull();
+    });
+
+    describe('month end', () => {
+        it('rolls a daily series from Jan 31 into February', () => {
+            expect(next({ date: '2026-01-31' }, { freq: 'daily' })?.date).toBe('2026-02-01');
+        });
+
+        it('skips February for a monthly series anchored on the 31st', () => {
+            expect(next({ date: '2026-01-31' }, { freq: 'monthly' })?.date).toBe('2026-03-31');
+        });
+
+        it('lands on the last day of February for a last-day-of-month series', () => {
+            expect(next({ date: '2026-01-31' }, { freq: 'monthly', byMonthDay: [-1] })?.date).toBe('2026-02-28');
+            expect(next({ date: '2028-01-31' }, { freq: 'monthly', byMonthDay: [-1] })?.date).toBe('2028-02-29');
+        });
+
+        it('rolls over the year end', () => {
+            expect(next({ date: '2026-12-31' }, { freq: 'daily' })?.date).toBe('2027-01-01');
+        });
+    });
+
+    describe('bounds', () => {
+        it('steps by the interval', () => {
+            expect(next({ date: '2026-01-30' }, { freq: 'daily', interval: 3 })?.date).toBe('2026-02-02');
+            expect(next({ date: '2026-01-15' }, { freq: 'weekly', interval: 2 })?.date).toBe('2026-01-29');
+        });
+
+        it('stops once the count is reached', () => {
+            const rule: RecurrenceRule = { freq: 'daily', count: 3 };
+            expect(next({ occurrenceIndex: 2 }, rule)?.occurrenceIndex).toBe(3);
+            expect(next({ occurrenceIndex: 3 }, rule)).toBeNull();
+        });
+
+        it('includes the until date and stops after it', () => {
+            const rule: RecurrenceRule = { freq: 'daily', until: '2026-01-16' };
+            expect(next({ date: '2026-01-15' }, rule)?.date).toBe('2026-01-16');
+            expect(next({ date: '2026-01-16' }, rule)).toBeNull();
+        });
+
+        it('stops when the interval jumps past the until date', () => {
+            expect(next({ date: '2026-01-15' }, { freq: 'daily', interval: 7, until: '2026-01-20' })).toBeNull();
+        });
+    });
+
+    it('spawns the next instance when the last slot is missed', () => {
+        const reminder = createReminder({ recurrence: 'daily' });
+        const now = at('2026-01-15T14:00:00Z');
+        const due = collectDueAlarms([reminder], now, createContext());
+        const updated = applyDueAlarms([reminder], due, now, () => 'next', createContext());
+
+        expect(updated).toHaveLength(2);
+        expect(updated[0]).toMatchObject({ missedTimes: ['08:00'], hasSpawnedNext: true });
+        expect(updated[1]).toMatchObject({ id: 'next', date: '2026-01-16' });
+    });
+});
+
+describe('catching up after the app was closed', () => {
+    const context = createContext();
+
+    // Same loop as the alarm effect in App: apply what is due and look again, else sleep until the next wake-up
+    const runScheduler = (initial: Reminder[], clock: ReturnType<typeof createFakeClock>) => {
+        const state = { reminders: initial, passes: 0, fired: [] as string[], missed: [] as string[] };
+        let nextId = 1;
+        let cancel = () => {};
+        const run = () => {
+            cancel();
+            for (;;) {
+                const now = clock.now();
+                const due = collectDueAlarms(state.reminders, now, context);
+                if (due.toFire.length === 0 && Object.keys(due.missed).length === 0 && due.preAlerts.length === 0) break;
+                state.passes++;
+                state.fired.push(...due.toFire.map(r => `${r.date} ${r.time}`));
+                Object.entries(due.missed).forEach(([id, times]) => {
+                    const r = state.reminders.find(x => x.id === id)!;
+                    state.missed.push(...times.map(t => `${r.date} ${t}`));
+                });
+                state.reminders = applyDueAlarms(state.reminders, due, now, () => `spawn-${nextId++}`, context);
+            }
+            const wakeUp = getNextWakeUp(state.reminders, clock.now(), context);
+            if (wakeUp !== null) cancel = armTimer(clock, wakeUp, run);
+        };
+        run();
+        return state;
+    };
+
+    it('resumes a daily series today in one pass, recording only the stale instance', () => {
+        const clock = createFakeClock(at('2026-01-15T12:00:00Z')); // 07:00 EST, five days after the last instance
+        const state = runScheduler([createReminder({ date: '2026-01-10', recurrence: 'daily', occurrenceIndex: 3 })], clock);
+
+        expect(state.passes).toBe(1);
+        expect(state.missed).toEqual(['2026-01-10 08:00']);
+        expect(state.reminders).toHaveLength(2);
+        expect(state.reminders[1]).toMatchObject({ date: '2026-01-15', occurrenceIndex: 8 });
+
+        clock.advanceTo(at('2026-01-15T13:00:00Z'));
+        expect(state.fired).toEqual(['2026-01-15 08:00']);
+    });
+
+    it('steps past today once its slots are beyond the grace window too', () => {
+        const clock = createFakeClock(at('2026-01-15T20:00:00Z')); // 15:00 EST
+        const state = runScheduler([createReminder({ date: '2026-01-10', times: ['08:00', '12:00'], recurrence: 'daily' })], clock);
+
+        expect(state.passes).toBe(1);
+        expect(state.missed).toEqual(['2026-01-10 08:00', '2026-01-10 12:00']);
+        expect(state.reminders.map(r => r.date)).toEqual(['2026-01-10', '2026-01-16']);
+    });
+
+    it('ends a counted series that ran out while the app was closed', () => {
+        const clock = createFakeClock(at('2026-01-15T12:00:00Z'));
+        const state = runScheduler([createReminder({ date: '2026-01-01', rule: { freq: 'daily', count: 5 }, occurrenceIndex: 2 })], clock);
+
+        expect(state.passes).toBe(1);
+        expect(state.reminders).toHaveLength(1);
+        expect(state.reminders[0]).toMatchObject({ hasSpawnedNext: true, missedTimes: ['08:00'] });
+    });
+
+    it('catches up a long gap in one step', () => {
+        const clock = createFakeClock(at('2026-01-15T12:00:00Z'));
+        const state = runScheduler([createReminder({ date: '2025-01-15', recurrence: 'daily' })], clock);
+
+        expect(state.passes).toBe(1);
+        expect(state.reminders[1].date).toBe('2026-01-15');
+    });
+});
+
+describe('applyReminderEdit', () => {
+    const rung = createReminder({
+        times: ['08:00', '12:00', '20:00'],
+        occurrenceIndex: 4,
+        remindedAt: { '08:00': at('2026-01-15T13:00:00Z') },
+        missedTimes: ['20:00'],
+        skippedTimes: ['12:00'],
+        snoozedUntil: { '08:00': at('2026-01-15T13:10:00Z') },
+        autoSnoozeCount: 2
+    });
+    const { id, ...form } = rung;
+
+    it('keeps the ringing state when only the title changes', () => {
+        const edited = applyReminderEdit(rung, { ...form, title: '吃降糖药', remindedAt: undefined, snoozedUntil: undefined, missedTimes: undefined, skippedTimes: undefined });
+
+        expect(edited).toMatchObject({ id: 'r1', title: '吃降糖药', occurrenceIndex: 4, missedTimes: ['20:00'], skippedTimes: ['12:00'], autoSnoozeCount: 2 });
+        expect(collectDueAlarms([edited], at('2026-01-15T13:05:00Z'), createContext()).toFire).toHaveLength(0);
+    });
+
+    it('starts over when the times change', () => {
+        const edited = applyReminderEdit(rung, { ...form, time: '09:00', times: ['09:00', '20:00'] });
+        expect(edited.occurrenceIndex).toBe(4);
+        expect(edited.remindedAt).toBeUndefined();
+        expect(edited.missedTimes).toBeUndefined();
+        expect(edited.snoozedUntil).toBeUndefined();
+    });
+
+    it('starts over when the date changes', () => {
+        const edited = applyReminderEdit(rung, { ...form, date: '2026-01-16', remindedAt: undefined, snoozedUntil: undefined, skippedTimes: undefined });
+        expect(edited.skippedTimes).toBeUndefined();
+        expect(collectDueAlarms([edited], at('2026-01-16T13:00:00Z'), createContext()).toFire).toHaveLength(1);
+    });
+});
+
+describe('armTimer', () => {
+    it('fires at the given instant on the injected clock', () => {
+        const clock = createFakeClock(0);
+        let fired = 0;
+        armTimer(clock, 5 * MINUTE, () => fired++);
+
+        clock.advanceTo(5 * MINUTE - 1);
+        expect(fired).toBe(0);
+        clock.advanceTo(5 * MINUTE);
+        expect(fired).toBe(1);
+    });
+
+    it('chains waits longer than the browser timer limit', () => {
+        const clock = createFakeClock(0);
+        const target = 40 * 24 * 60 * MINUTE; // Past 2^31-1 ms
+        let firedAt: number | null = null;
+        armTimer(clock, target, () => { firedAt = clock.now(); });
+
+        clock.advanceTo(target - 1);
+        expect(firedAt).toBeNull();
+        clock.advanceTo(target);
+        expect(firedAt).toBe(target);
+    });
+
+    it('does not fire once cancelled', () => {
+        const clock = createFakeClock(0);
+        let fired = false;
+        const cancel = armTimer(clock, MINUTE, () => { fired = true; });
+        cancel();
+        clock.advanceTo(2 * MINUTE);
+        expect(fired).toBe(false);
+    });
+});
@@ -0,0 +1,435 @@
+import { Reminder, EscalationPolicy } from "../types";
+import { getEffectiveRule, getNextOccurrenceDate, isRecurring } from "./recurrence";
+import { getReminderTimes, isSlotResolved, getSlotDueTime, preAlertKey } from "./reminderSlots";
+
+// Everything time-related goes through a Clock so the scheduler can be driven by a fake one
+export interface Clock {
+    now: () => number;
+    setTimeout: (callback: () => void, ms: number) => unknown;
+    clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Browsers overflow setTimeout above 2^31-1 ms, longer waits are chained
+const MAX_TIMER_DELAY = 2147483647;
+
+// A snooze that fired less than this ago is not re-fired
+const REFIRE_GUARD_MS = 60000;
+
+export interface SchedulerContext {
+    getGraceMinutes: (reminder: Reminder) => number;
+    getTimeZone: (reminder: Reminder) => string | undefined; // Owner's IANA zone
+    getLeadTimes: (reminder: Reminder) => number[]; // Minutes before each slot to pre-alert
+    getDeferral: (reminder: Reminder, at: number) => number | null; // Quiet hours push a ring at `at` to this instant
+}
+
+export interface PreAlert {
+    id: string; // Unique per reminder, slot and lead
+    reminder: Reminder; // Copy with `time` set to the upcoming slot
+    leadMinutes: number; // Shortest lead that has passed, used for the announcement
+    keys: string[]; // Every passed lead of the slot, marked together so stale ones don't pile up
+}
+
+export interface DueAlarms {
+    toFire: Reminder[]; // Alarm copies, `time` is the ringing slot
+    missed: { [id: string]: string[] }; // Slots whose grace window passed without ringing
+    preAlerts: PreAlert[];
+}
+
+interface SlotState {
+    remindedAt: { [time: string]: number };
+    snoozedUntil: { [time: string]: number };
+}
+
+// Per-slot ring and snooze state. Reminders saved before it was tracked per slot carry one
+// lastRemindedAt for every slot and a single snooze, which are read into the maps here.
+const getSlotState = (r: Reminder): SlotState => {
+    const remindedAt = { ...r.remindedAt };
+    if (r.lastRemindedAt) getReminderTimes(r).forEach(t => { remindedAt[t] ??= r.lastRemindedAt!; });
+    const snoozedUntil = { ...r.snoozedUntil };
+    if (r.snoozeUntil) snoozedUntil[r.snoozedTime || r.time] ??= r.snoozeUntil;
+    return { remindedAt, snoozedUntil };
+};
+
+// Writes the state back in the per-slot form only
+const withSlotState = (r: Reminder, state: SlotState): Reminder => ({
+    ...r,
+    remindedAt: Object.keys(state.remindedAt).length > 0 ? state.remindedAt : undefined,
+    snoozedUntil: Object.keys(state.snoozedUntil).length > 0 ? state.snoozedUntil : undefined,
+    lastRemindedAt: undefined,
+    snoozeUntil: undefined,
+    snoozedTime: undefined
+});
+
+// Instant a slot's snooze ends, undefined when the slot isn't snoozed
+export const getSlotSnooze = (r: Reminder, time: string): number | undefined => getSlotState(r).snoozedUntil[time];
+
+// Pre-alerts follow quiet hours like alarms do. One deferred past the slot itself is dropped.
+const preAlertAt = (reminder: Reminder, due: number, leadMinutes: number, context: SchedulerContext): number => {
+    const at = due - leadMinutes * 60000;
+    return context.getDeferral(reminder, at) ?? at;
+};
+
+// Slots whose due time passed while nothing was ticking still ring inside the grace window,
+// and are reported as missed once it has passed.
+export const collectDueAlarms = (
+    reminders: Reminder[],
+    now: number,
+    context: SchedulerContext
+): DueAlarms => {
+    const toFire: Reminder[] = [];
+    const missed: { [id: string]: string[] } = {};
+    const preAlerts: PreAlert[] = [];
+
+    reminders.forEach(r => {
+        if (r.isCompleted) return;
+
+        const { remindedAt, snoozedUntil } = getSlotState(r);
+        const graceMs = context.getGraceMinutes(r) * 60000;
+        const timeZone = context.getTimeZone(r);
+        const leadTimes = context.getLeadTimes(r);
+
+        getReminderTimes(r).forEach(t => {
+            if (isSlotResolved(r, t) || r.missedTimes?.includes(t)) return;
+            const lastReminded = remindedAt[t] || 0;
+
+            // A snoozed slot waits for its snooze, the other slots of the reminder keep their own schedule
+            if (snoozedUntil[t]) {
+                const wakeAt = context.getDeferral(r, snoozedUntil[t]) ?? snoozedUntil[t];
+                if (now >= wakeAt && (now - lastReminded) > REFIRE_GUARD_MS) toFire.push({ ...r, time: t });
+                return;
+            }
+
+            const due = getSlotDueTime(r, t, timeZone);
+
+            if (now < due) {
+                const passed = leadTimes.filter(l => now >= preAlertAt(r, due, l, context) && !r.preAlerted?.includes(preAlertKey(t, l)));
+                if (passed.length > 0) {
+                    const leadMinutes = Math.min(...passed);
+                    preAlerts.push({
+                        id: `${r.id}@${preAlertKey(t, leadMinutes)}`,
+                        reminder: { ...r, time: t },
+                        leadMinutes,
+                        keys: passed.map(l => preAlertKey(t, l))
+                    });
+                }
+                return;
+            }
+
+            // A deferred slot rings when quiet hours end and its grace window starts from there
+            const ringAt = context.getDeferral(r, due) ?? due;
+            if (now < ringAt || lastReminded >= ringAt) return;
+
+            if (now - ringAt <= graceMs) toFire.push({ ...r, time: t });
+            else missed[r.id] = [...(missed[r.id] || []), t];
+        });
+    });
+
+    return { toFire, missed, preAlerts };
+};
+
+// Earliest future instant at which collectDueAlarms could return something new
+export const getNextWakeUp = (reminders: Reminder[], now: number, context: SchedulerContext): number | null => {
+    let next: number | null = null;
+    const consider = (ts: number) => {
+        if (ts > now && (next === null || ts < next)) next = ts;
+    };
+
+    reminders.forEach(r => {
+        if (r.isCompleted) return;
+        const { remindedAt, snoozedUntil } = getSlotState(r);
+        getReminderTimes(r).forEach(t => {
+            if (isSlotResolved(r, t) || r.missedTimes?.includes(t)) return;
+            if (snoozedUntil[t]) {
+                const wakeAt = context.getDeferral(r, snoozedUntil[t]) ?? snoozedUntil[t];
+                consider(Math.max(wakeAt, (remindedAt[t] || 0) + REFIRE_GUARD_MS + 1));
+                return;
+            }
+            const due = getSlotDueTime(r, t, context.getTimeZone(r));
+            consider(context.getDeferral(r, due) ?? due);
+            context.getLeadTimes(r).forEach(l => {
+                if (!r.preAlerted?.includes(preAlertKey(t, l))) consider(preAlertAt(r, due, l, context));
+            });
+        });
+    });
+
+    return next;
+};
+
+export interface UpcomingAlarm {
+    reminder: Reminder; // Copy with `time` set to the slot
+    at: number; // When it rings, after any quiet-hours deferral
+}
+
+// Alarms that will ring in (now, until], for handing to something that outlives the page
+export const getUpcomingAlarms = (reminders: Reminder[], now: number, until: number, context: SchedulerContext): UpcomingAlarm[] => {
+    const upcoming: UpcomingAlarm[] = [];
+    const add = (reminder: Reminder, at: number) => {
+        if (at > now && at <= until) upcoming.push({ reminder, at });
+    };
+
+    reminders.forEach(r => {
+        if (r.isCompleted) return;
+        const { snoozedUntil } = getSlotState(r);
+        getReminderTimes(r).forEach(t => {
+            if (isSlotResolved(r, t) || r.missedTimes?.includes(t)) return;
+            if (snoozedUntil[t]) {
+                add({ ...r, time: t }, context.getDeferral(r, snoozedUntil[t]) ?? snoozedUntil[t]);
+                return;
+            }
+            const due = getSlotDueTime(r, t, context.getTimeZone(r));
+            add({ ...r, time: t }, context.getDeferral(r, due) ?? due);
+        });
+    });
+
+    return upcoming.sort((a, b) => a.at - b.at);
+};
+
+export const createNextOccurrence = (reminder: Reminder, id: string): Reminder | null => {
+    const rule = getEffectiveRule(reminder);
+    if (!rule) return null;
+
+    const index = reminder.occurrenceIndex || 1;
+    if (rule.count && index >= rule.count) return null;
+
+    const nextDate = getNextOccurrenceDate(reminder.date, rule);
+    if (!nextDate) return null;
+
+    return {
+        ...reminder,
+        id,
+        date: nextDate,
+        occurrenceIndex: index + 1,
+        isCompleted: false,
+        completedTimes: undefined,
+        missedTimes: undefined,
+        skippedTimes: undefined,
+        hasSpawnedNext: undefined,
+        preAlerted: undefined,
+        autoSnoozeCount: undefined,
+        escalatedAt: undefined,
+        escalatedTime: undefined,
+        escalatedTo: undefined,
+        escalationAcknowledged: undefined,
+        remindedAt: undefined,
+        snoozedUntil: undefined,
+        lastRemindedAt: undefined,
+        snoozeUntil: undefined,
+        snoozedTime: undefined
+    };
+};
+
+// Saves an edit made in the form. Series bookkeeping is not part of the form and always survives. The ringing
+// state (reminded, missed, skipped, snoozed, escalated) only does while the date and times are unchanged, so
+// renaming a reminder that already rang doesn't ring it again or bring back skipped slots.
+export const applyReminderEdit = (original: Reminder, data: Omit<Reminder, 'id'>): Reminder => {
+    const sameSchedule = data.date === original.date && getReminderTimes(data).join() === getReminderTimes(original).join();
+    const ringing = sameSchedule ? original : {} as Partial<Reminder>;
+
+    return {
+        ...data,
+        id: original.id,
+        occurrenceIndex: original.occurrenceIndex,
+        hasSpawnedNext: original.hasSpawnedNext,
+        missedTimes: ringing.missedTimes,
+        skippedTimes: ringing.skippedTimes,
+        preAlerted: ringing.preAlerted,
+        autoSnoozeCount: ringing.autoSnoozeCount,
+        escalatedAt: ringing.escalatedAt,
+        escalatedTime: ringing.escalatedTime,
+        escalatedTo: ringing.escalatedTo,
+        escalationAcknowledged: ringing.escalationAcknowledged,
+        remindedAt: ringing.remindedAt,
+        snoozedUntil: ringing.snoozedUntil,
+        lastRemindedAt: ringing.lastRemindedAt,
+        snoozeUntil: ringing.snoozeUntil,
+        snoozedTime: ringing.snoozedTime
+    };
+};
+
+// Bounds the fast-forward below, a daily series left alone for three years
+const MAX_CATCH_UP_OCCURRENCES = 1100;
+
+// True once every slot of the instance is past its grace window, i.e. it could only be reported missed
+const isPastGrace = (r: Reminder, now: number, context: SchedulerContext): boolean => {
+    const graceMs = context.getGraceMinutes(r) * 60000;
+    const timeZone = context.getTimeZone(r);
+    return getReminderTimes(r).every(t => {
+        const due = getSlotDueTime(r, t, timeZone);
+        return now - (context.getDeferral(r, due) ?? due) > graceMs;
+    });
+};
+
+// Successor of a missed instance. Occurrences that passed entirely while the app was closed are stepped
+// over in one go, so a series left alone for days records only the instance it was on and resumes today.
+const createCatchUpOccurrence = (reminder: Reminder, now: number, context: SchedulerContext, id: string): Reminder | null => {
+    let next = createNextOccurrence(reminder, id);
+    for (let i = 0; next && i < MAX_CATCH_UP_OCCURRENCES && isPastGrace(next, now, context); i++) {
+        next = createNextOccurrence(next, id);
+    }
+    return next;
+};
+
+// Marks fired reminders as reminded, missed slots as missed and shown pre-alerts as shown. A recurring instance whose slots are all
+// closed spawns its successor, so the series keeps going even if nobody acknowledged it.
+export const applyDueAlarms = (
+    reminders: Reminder[],
+    due: DueAlarms,
+    now: number,
+    createId: () => string,
+    context: SchedulerContext
+): Reminder[] => {
+    const spawned: Reminder[] = [];
+
+    const updated = reminders.map(r => {
+        let next = r;
+        const fired = due.toFire.filter(f => f.id === r.id).map(f => f.time);
+        if (fired.length > 0) {
+            const state = getSlotState(r);
+            fired.forEach(t => {
+                state.remindedAt[t] = now;
+                delete state.snoozedUntil[t];
+            });
+            next = withSlotState(next, state);
+        }
+        const shownKeys = due.preAlerts.filter(p => p.reminder.id === r.id).flatMap(p => p.keys);
+        if (shownKeys.length > 0) {
+            next = { ...next, preAlerted: [...(r.preAlerted || []), ...shownKeys] };
+        }
+        if (due.missed[r.id]) {
+            const withMissed: Reminder = { ...next, missedTimes: [...(r.missedTimes || []), ...due.missed[r.id]] };
+            const allClosed = getReminderTimes(withMissed).every(t => isSlotResolved(withMissed, t) || withMissed.missedTimes!.includes(t));
+            next = withMissed;
+            if (allClosed && !withMissed.hasSpawnedNext) {
+                const nextInstance = createCatchUpOccurrence(withMissed, now, context, createId());
+                if (nextInstance) spawned.push(nextInstance);
+                next = { ...withMissed, hasSpawnedNext: true };
+            }
+        }
+        return next;
+    });
+
+    return [...updated, ...spawned];
+};
+
+// Applies slot completion/skips to one reminder and spawns the next instance once every slot is closed
+export const closeSlots = (
+    reminders: Reminder[],
+    reminder: Reminder,
+    completedTimes: string[],
+    skippedTimes: string[],
+    createId: () => string
+): Reminder[] => {
+    const slots = getReminderTimes(reminder);
+    const allDone = slots.every(t => completedTimes.includes(t) || skippedTimes.includes(t));
+    const shouldSpawn = allDone && isRecurring(reminder) && !reminder.hasSpawnedNext;
+
+    const updated = reminders.map(r => r.id === reminder.id ? {
+        ...r,
+        isCompleted: allDone,
+        completedTimes: slots.length > 1 ? completedTimes : undefined,
+        skippedTimes: skippedTimes.length > 0 ? skippedTimes : undefined,
+        missedTimes: r.missedTimes?.filter(t => !completedTimes.includes(t) && !skippedTimes.includes(t)),
+        autoSnoozeCount: undefined,
+        hasSpawnedNext: r.hasSpawnedNext || shouldSpawn
+    } : r);
+
+    if (shouldSpawn) {
+        const nextInstance = createNextOccurrence(reminder, createId());
+        if (nextInstance) updated.push(nextInstance);
+    }
+    return updated;
+};
+
+// Position in a COUNT-bounded series, counted in doses so "twice a day for 7 days" reads 3/14
+export const getSeriesProgress = (reminder: Reminder): { current: number; total: number } | null => {
+    const rule = getEffectiveRule(reminder);
+    if (!rule?.count) return null;
+
+    const slots = getReminderTimes(reminder);
+    const closed = slots.filter(t => isSlotResolved(reminder, t)).length;
+    const before = ((reminder.occurrenceIndex || 1) - 1) * slots.length;
+    const total = rule.count * slots.length;
+    const current = closed === slots.length ? before + closed : before + closed + 1;
+    return { current: Math.min(current, total), total };
+};
+
+// A snooze by hand counts as an answer and resets the auto-snooze streak
+export const snoozeReminders = (
+    reminders: Reminder[],
+    targets: { id: string; time?: string }[],
+    until: number
+): Reminder[] => {
+    return reminders.map(r => {
+        const slots = targets.filter(t => t.id === r.id).map(t => t.time || r.time);
+        if (slots.length === 0) return r;
+        const state = getSlotState(r);
+        slots.forEach(t => { state.snoozedUntil[t] = until; });
+        return { ...withSlotState(r, state), autoSnoozeCount: undefined };
+    });
+};
+
+// Snooze applied when an alarm rang unanswered. Reminders whose type policy runs out of auto-snoozes are
+// flagged as escalated (once per instance) and returned so the caller can notify and log.
+export const autoSnoozeReminders = (
+    reminders: Reminder[],
+    targets: { id: string; time?: string }[],
+    until: number,
+    now: number,
+    getPolicy: (reminder: Reminder) => EscalationPolicy | undefined
+): { reminders: Reminder[]; escalated: Reminder[] } => {
+    const escalated: Reminder[] = [];
+
+    const updated = reminders.map(r => {
+        const slots = targets.filter(t => t.id === r.id).map(t => t.time || r.time);
+        if (slots.length === 0) return r;
+
+        const state = getSlotState(r);
+        slots.forEach(t => { state.snoozedUntil[t] = until; });
+        const count = (r.autoSnoozeCount || 0) + 1;
+        const next: Reminder = { ...withSlotState(r, state), autoSnoozeCount: count };
+        const policy = getPolicy(r);
+        if (!policy?.enabled || r.escalatedAt || count < policy.maxAutoSnoozes) return next;
+
+        const flagged: Reminder = {
+            ...next,
+            escalatedAt: now,
+            escalatedTime: slots[0],
+            escalatedTo: policy.caregiverId,
+            escalationAcknowledged: undefined
+        };
+        escalated.push(flagged);
+        return flagged;
+    });
+
+    return { reminders: updated, escalated };
+};
+
+// Next local midnight, used to roll the "today" view over without polling
+export const getNextMidnight = (now: number): number => {
+    const d = new Date(now);
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+};
+
+// Arms a single timer for an absolute instant. Returns a cancel function.
+export const armTimer = (clock: Clock, at: number, callback: () => void): (() => void) => {
+    let handle: unknown = null;
+
+    const schedule = () => {
+        const delay = Math.max(0, at - clock.now());
+        handle = delay > MAX_TIMER_DELAY
+            ? clock.setTimeout(schedule, MAX_TIMER_DELAY)
+            : clock.setTimeout(callback, delay);
+    };
+    schedule();
+
+    return () => {
+        if (handle !== null) clock.clearTimeout(handle);
+        handle = null;
+    };
+};
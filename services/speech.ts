@@ -0,0 +1,100 @@
+import { AISettings, VoiceSettings } from "../types";
+
+// Spoken output of the alarm and the daily briefing. OpenAI-compatible TTS when chosen in the voice settings,
+// the browser voice otherwise or when the TTS request fails.
+
+export interface SpeakOptions {
+    level?: number; // 0-1, scales the voice down during quiet hours
+    onStart?: () => void; // E.g. duck the alarm beep
+    onEnd?: () => void;
+}
+
+const speakWithOpenAI = async (text: string, voiceSettings: VoiceSettings, aiSettings: AISettings, options: SpeakOptions): Promise<boolean> => {
+    // 1. Try to get key from the 'openai' specific config first
+    let apiKey = aiSettings.configs['openai']?.apiKey;
+    let rawBaseUrl = aiSettings.configs['openai']?.baseUrl;
+
+    // 2. Fallback to Voice Settings custom URL if provided (for flexibility)
+    if (voiceSettings.ttsBaseUrl) {
+        rawBaseUrl = voiceSettings.ttsBaseUrl;
+    }
+
+    // 3. Fallback to active provider if it's generic compatible
+    if (!apiKey) {
+        apiKey = aiSettings.configs[aiSettings.activeProvider]?.apiKey;
+    }
+
+    if (!apiKey) {
+        console.warn("OpenAI TTS selected but no API Key found.");
+        return false;
+    }
+
+    // 4. Default Base URL
+    if (!rawBaseUrl) rawBaseUrl = 'https://api.openai.com/v1';
+
+    const cleanBaseUrl = rawBaseUrl.endsWith('/') ? rawBaseUrl.slice(0, -1) : rawBaseUrl;
+    const url = `${cleanBaseUrl}/audio/speech`;
+
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                model: voiceSettings.model || 'tts-1',
+                input: text,
+                voice: voiceSettings.voiceURI || 'alloy',
+                speed: voiceSettings.rate // OpenAI supports speed 0.25 to 4.0
+            })
+        });
+        if (!response.ok) throw new Error("TTS Failed");
+        const blob = await response.blob();
+        const blobUrl = URL.createObjectURL(blob);
+        const audio = new Audio(blobUrl);
+        audio.volume = options.level ?? 1.0;
+        audio.onended = () => { URL.revokeObjectURL(blobUrl); options.onEnd?.(); };
+        await audio.play();
+        return true;
+    } catch (e) {
+        console.error("OpenAI TTS Error:", e);
+        return false;
+    }
+};
+
+export const speakAloud = async (text: string, voiceSettings: VoiceSettings, aiSettings: AISettings, options: SpeakOptions = {}) => {
+    if (typeof window === 'undefined') return;
+
+    if (voiceSettings.provider === 'openai') {
+        options.onStart?.();
+        const success = await speakWithOpenAI(text, voiceSettings, aiSettings, options);
+        if (success) return;
+    }
+
+    if (window.speechSynthesis && 'speechSynthesis' in window) {
+        // IMPORTANT: Do NOT call cancel() here excessively, it kills the engine on Android
+
+        const msg = new SpeechSynthesisUtterance();
+        msg.text = text;
+        msg.rate = voiceSettings.rate;
+        msg.pitch = voiceSettings.pitch;
+        msg.volume = voiceSettings.volume * (options.level ?? 1.0);
+        msg.lang = 'zh-CN';
+
+        if (voiceSettings.voiceURI && voiceSettings.provider !== 'openai') {
+            const voices = window.speechSynthesis.getVoices();
+            const voice = voices.find(v => v.voiceURI === voiceSettings.voiceURI);
+            if (voice) msg.voice = voice;
+        }
+
+        options.onStart?.();
+        msg.onend = () => options.onEnd?.();
+        msg.onerror = () => options.onEnd?.();
+
+        // Global ref hack to prevent Garbage Collection on Chrome/Android
+        (window as any).currentUtterance = msg;
+
+        window.speechSynthesis.speak(msg);
+    }
+};
@@ -0,0 +1,99 @@
+// Helpers for reading "YYYY-MM-DD" + "HH:mm" in a member's IANA time zone
+
+export const COMMON_TIME_ZONES: { id: string; label: string }[] = [
+    { id: 'Asia/Shanghai', label: '北京' },
+    { id: 'Asia/Hong_Kong', label: '香港' },
+    { id: 'Asia/Taipei', label: '台北' },
+    { id: 'Asia/Tokyo', label: '东京' },
+    { id: 'Asia/Singapore', label: '新加坡' },
+    { id: 'Australia/Sydney', label: '悉尼' },
+    { id: 'Europe/London', label: '伦敦' },
+    { id: 'Europe/Paris', label: '巴黎' },
+    { id: 'Europe/Berlin', label: '柏林' },
+    { id: 'America/New_York', label: '纽约' },
+    { id: 'America/Chicago', label: '芝加哥' },
+    { id: 'America/Los_Angeles', label: '洛杉矶' },
+    { id: 'America/Vancouver', label: '温哥华' },
+    { id: 'America/Toronto', label: '多伦多' },
+];
+
+const formatterCache: { [tz: string]: Intl.DateTimeFormat } = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    if (!formatterCache[timeZone]) {
+        formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit'
+        });
+    }
+    return formatterCache[timeZone];
+};
+
+const getZonedParts = (timestamp: number, timeZone: string) => {
+    const parts: { [type: string]: number } = {};
+    getFormatter(timeZone).formatToParts(new Date(timestamp)).forEach(p => {
+        if (p.type !== 'literal') parts[p.type] = Number(p.value);
+    });
+    return parts;
+};
+
+export const getDeviceTimeZone = (): string => {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// True when the zone is set and actually differs from the device zone
+export const isForeignTimeZone = (timeZone?: string): boolean => {
+    return !!timeZone && timeZone !== getDeviceTimeZone() && isValidTimeZone(timeZone);
+};
+
+// Offset of the zone from UTC at the given instant, in ms
+const getOffset = (timestamp: number, timeZone: string): number => {
+    const p = getZonedParts(timestamp, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+// Instant of a wall-clock date/time in the given zone. Without a zone the device zone is used.
+export const zonedTimeToTimestamp = (date: string, time: string, timeZone?: string): number => {
+    if (!isForeignTimeZone(timeZone)) return new Date(`${date}T${time}`).getTime();
+
+    const [y, m, d] = date.split('-').map(Number);
+    const [hh, mm] = time.split(':').map(Number);
+    const wallClock = Date.UTC(y, m - 1, d, hh, mm);
+
+    // Two passes settle the offset across DST transitions. A wall time skipped by spring-forward
+    // does not exist and is moved past the gap, like `new Date()` does for the device zone.
+    const first = wallClock - getOffset(wallClock, timeZone!);
+    const second = wallClock - getOffset(first, timeZone!);
+    if (wallClock - getOffset(second, timeZone!) === second) return second;
+    return Math.max(first, second);
+};
+
+export const formatDateInZone = (timestamp: number, timeZone?: string): string => {
+    const p = getZonedParts(timestamp, timeZone && isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone());
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+};
+
+export const formatTimeInZone = (timestamp: number, timeZone?: string): string => {
+    const p = getZonedParts(timestamp, timeZone && isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone());
+    return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+};
+
+export const getTodayStringInZone = (timeZone?: string): string => {
+    return formatDateInZone(Date.now(), timeZone);
+};
+
+export const getTimeZoneLabel = (timeZone: string): string => {
+    return COMMON_TIME_ZONES.find(z => z.id === timeZone)?.label || timeZone.split('/').pop()!.replace(/_/g, ' ');
+};
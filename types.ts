@@ -4,6 +4,15 @@ export interface User {
   name: string;
   avatar: string; // URL or emoji
   color: string;
+  timeZone?: string; // IANA zone, e.g. 'America/Vancouver'. Device zone when unset
+  quietHours?: QuietHours;
+  briefingTime?: string; // "HH:mm" in the member's zone for the spoken daily briefing, off when unset
+}
+
+// Nightly window in the member's own time zone, may wrap past midnight (e.g. 22:00-07:00)
+export interface QuietHours {
+  start: string; // "HH:mm"
+  end: string; // "HH:mm"
 }
 
 export interface ReminderTypeDefinition {
@@ -11,35 +20,208 @@ export interface ReminderTypeDefinition {
   label: string;
   icon: string; // FontAwesome class suffix (e.g. 'capsules')
   color: string; // Tailwind class (e.g. 'bg-red-500')
+  graceMinutes?: number; // Late alarms still ring within this window, afterwards they count as missed
+  defaultLeadTimes?: number[]; // Minutes before each slot to pre-alert, used when a reminder sets none
+  escalation?: EscalationPolicy;
+  critical?: boolean; // Still rings during quiet hours and do-not-disturb, at reduced volume
+  fields?: CustomFieldDefinition[]; // Extra details reminders of this type can carry
+  measurement?: MeasurementKind; // Completing a reminder of this type asks for a reading
+}
+
+export type CustomFieldKind = 'text' | 'number' | 'select';
+
+export interface CustomFieldDefinition {
+  id: string;
+  label: string; // e.g. "剂量", also the name the assistant fills it by
+  kind: CustomFieldKind;
+  options?: string[]; // Choices of a 'select' field
+  unit?: string; // Appended to 'number' values, e.g. "分钟"
+}
+
+// What happens when an alarm of this type keeps getting auto-snoozed because nobody answers
+export interface EscalationPolicy {
+  enabled: boolean;
+  maxAutoSnoozes: number; // Escalate once this many auto-snoozes happened in a row
+  caregiverId?: string; // Member who gets the escalation banner, whole family when unset
+}
+
+export type RecurrencePreset = 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// RFC 5545 style rule (FREQ / INTERVAL / BYDAY / BYSETPOS / BYMONTHDAY / UNTIL / COUNT)
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number; // Every N days/weeks/months/years, default 1
+  byWeekday?: Weekday[]; // e.g. ['MO', 'WE', 'FR']
+  bySetPos?: number; // With byWeekday in monthly rules: 2 = second, -1 = last
+  byMonthDay?: number[]; // 1..31, -1 = last day of month
+  until?: string; // Last allowed date "YYYY-MM-DD", inclusive
+  count?: number; // Total number of instances in the series
+  calendar?: 'gregorian' | 'lunar'; // Lunar rules are yearly and recur on lunarMonth/lunarDay
+  lunarMonth?: number; // 1-12
+  lunarDay?: number; // 1-30
+  lunarLeap?: boolean; // Date is in a leap month, falls back to the regular month in other years
+  dayFilter?: 'workday' | 'nonworkday'; // Keep only official workdays (incl. make-up days) or only days off
+}
+
+// Official public holiday arrangement, one entry per year as published by the State Council
+export interface HolidayYear {
+  holidays: { name: string; start: string; end: string }[]; // Days off, "YYYY-MM-DD" inclusive
+  workdays: { name: string; date: string }[]; // Weekend days that are worked (调休)
+}
+
+export interface HolidayCalendar {
+  updatedAt: string; // "YYYY-MM-DD" the data was last checked
+  years: { [year: string]: HolidayYear };
 }
 
 export interface Reminder {
   id: string;
   userId: string;
   title: string;
-  time: string; // Format: "HH:mm"
+  time: string; // Format: "HH:mm" (first slot when times is set)
+  times?: string[]; // Multiple daily slots, sorted "HH:mm"
   date: string; // Format: "YYYY-MM-DD"
-  isCompleted: boolean;
+  isCompleted: boolean; // True once every slot of the day is done
+  completedTimes?: string[]; // Slots already done for this day
+  missedTimes?: string[]; // Slots whose grace window passed without ringing
+  skippedTimes?: string[]; // Missed slots the family chose to skip
+  hasSpawnedNext?: boolean; // Next recurring instance already created
+  occurrenceIndex?: number; // 1-based position in a recurring series, 1 when unset
   type: string; // Dynamic ID now, was union
-  recurrence: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
-  lastRemindedAt?: number; // Timestamp
-  snoozeUntil?: number; // Timestamp
+  recurrence: RecurrencePreset;
+  rule?: RecurrenceRule; // Takes precedence over recurrence when present
+  leadTimes?: number[]; // Minutes before each slot to pre-alert, falls back to the type default when unset
+  preAlerted?: string[]; // "HH:mm-minutes" pre-alerts already shown for this day
+  autoSnoozeCount?: number; // Auto-snoozes in a row without anyone answering
+  escalatedAt?: number; // Timestamp the alarm was handed to the caregiver
+  escalatedTime?: string; // Slot that was escalated
+  escalatedTo?: string; // Caregiver member id, unset means the whole family
+  escalationAcknowledged?: boolean; // Caregiver dismissed the banner
+  remindedAt?: { [time: string]: number }; // Last ring of each slot
+  snoozedUntil?: { [time: string]: number }; // Open snooze of each slot
+  lastRemindedAt?: number; // Before per-slot tracking, read as the last ring of every slot
+  snoozeUntil?: number; // Before per-slot tracking, read together with snoozedTime
+  snoozedTime?: string; // Slot the legacy snoozeUntil belongs to
+  medicationId?: string; // Stock this reminder draws from, copied along a recurring series
+  fields?: { [fieldId: string]: string }; // Values of the type's custom fields, kept as entered
+  photoId?: string; // Picture in the on-device attachment store (services/attachments), not part of backups
 }
 
+// Pill stock of one medicine. Kept apart from reminders so every instance of a series draws from the same count.
+export interface Medication {
+  id: string;
+  userId: string; // Who takes it
+  name: string;
+  stock: number; // Units (pills, sachets...) left
+  dose: number; // Units per intake
+  refillDays: number; // A refill reminder is created once the projected supply drops below this many days
+  caregiverId?: string; // Who gets the refill reminder, the patient when unset
+  refillReminderId?: string; // Open refill reminder, so only one is created at a time
+}
+
+// Stock fields edited alongside a reminder, without id for a new medication
+export type MedicationDraft = Omit<Medication, 'id' | 'refillReminderId'> & { id?: string };
+
 export interface ParsedReminder {
   title: string;
   time: string;
+  times?: string[]; // Present when the same task repeats at several times a day
   date: string; // Format: "YYYY-MM-DD"
   targetUser?: string; // AI implied user
   type: string;
-  recurrence?: 'once' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+  recurrence?: RecurrencePreset;
+  rule?: RecurrenceRule;
+  leadTimes?: number[];
+  fields?: { name: string; value: string }[]; // Custom fields by label
+}
+
+export type MeasurementKind = 'glucose' | 'bloodPressure' | 'weight' | 'temperature';
+
+// One health reading. Blood pressure has systolic/diastolic/pulse components, the other kinds a single "value".
+export interface Measurement {
+  id: string;
+  userId: string;
+  kind: MeasurementKind;
+  at: number; // Timestamp
+  values: { [component: string]: number };
+  reminderId?: string; // Reminder it was taken for, unset when entered by hand
+  time?: string; // Slot "HH:mm" of that reminder
+}
+
+export type HistoryEventKind = 'fired' | 'snoozed' | 'completed' | 'reopened' | 'skipped' | 'missed' | 'escalated';
+
+// Append-only log entry. Reminder details are copied so entries outlive edits and deletions.
+export interface HistoryEvent {
+  id: string;
+  kind: HistoryEventKind;
+  at: number; // Timestamp
+  reminderId: string;
+  userId: string;
+  title: string;
+  type: string;
+  date: string; // "YYYY-MM-DD" of the instance
+  time: string; // Slot "HH:mm"
+  snoozeMinutes?: number; // Set on snoozes
+  auto?: boolean; // Snooze applied because nobody answered
+  late?: boolean; // Completed after the slot was reported missed
+  caregiverId?: string; // Set on escalations
+  autoSnoozes?: number; // Set on escalations
 }
 
 // New Interface for Smart Intent Response
+export type AIAction = 'create_reminder' | 'chat_response' | 'query_reminders' | 'update_reminder' | 'delete_reminder' | 'complete_reminder';
+
+// Existing reminder an action refers to, by its ref in the prompt summary
+export interface ReminderTarget {
+  ref: string;
+  time?: string; // One slot of a reminder with several times
+}
+
+// What update_reminder changes, only the fields the user mentioned
+export interface ReminderChanges {
+  title?: string;
+  time?: string;
+  date?: string;
+  targetUser?: string;
+}
+
 export interface AIResponse {
-  action: 'create_reminder' | 'chat_response';
-  reminder?: ParsedReminder; // Only present if action is create_reminder
-  replyText?: string;       // Only present if action is chat_response
+  action: AIAction;
+  reminders?: ParsedReminder[]; // create_reminder, one item per task
+  reminder?: ParsedReminder; // create_reminder with a single item, as earlier answers in the conversation have it
+  replyText?: string;       // chat_response, and the spoken answer of query_reminders
+  targets?: ReminderTarget[]; // query, update, delete and complete
+  changes?: ReminderChanges; // Only present if action is update_reminder
+}
+
+// One line of the reminder list sent to the assistant. Refs are short stand-ins for ids, valid for a single request.
+export interface ReminderSummary {
+  ref: string;
+  member: string;
+  title: string;
+  date: string;
+  times: string[];
+  type: string;
+  repeat?: string; // describeRecurrence text, unset for one-off reminders
+  done: string[]; // Completed slots
+}
+
+// Earlier message of the running assistant conversation, so a follow-up answer keeps its context
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  response?: AIResponse; // What the model returned, replayed as JSON so it keeps answering in JSON
+}
+
+// Extra household context fed into the assistant prompt
+export interface AssistantContext {
+  memberTimeZones?: { [memberName: string]: string }; // Only members living outside the device zone
+  medications?: { member: string; name: string; stock: number; dose: number; daysLeft: number | null }[];
+  reminderTypes?: ReminderTypeDefinition[]; // Lets the model pick custom types and fill their fields
+  history?: ConversationTurn[]; // Oldest first, without the new message
+  reminders?: ReminderSummary[]; // Lets the model answer about, change or complete existing reminders
 }
 
 export interface VoiceSettings {
@@ -50,9 +232,11 @@ export interface VoiceSettings {
   volume: number;
   model?: string; // For OpenAI, e.g. 'tts-1'
   ttsBaseUrl?: string; // New: Allow custom TTS endpoint (OpenAI compatible)
+  briefingTemplate?: string; // Daily briefing wording, DEFAULT_BRIEFING_TEMPLATE when unset
+  briefingUseAI?: boolean; // Let the assistant provider reword the briefing
 }
 
-export type AIProvider = 'gemini' | 'deepseek' | 'moonshot' | 'siliconflow' | 'custom' | 'openai';
+export type AIProvider = 'gemini' | 'deepseek' | 'moonshot' | 'siliconflow' | 'custom' | 'openai' | 'offline'; // offline = built-in rule parser, no key
 
 export interface AIConfig {
   apiKey: string;
@@ -65,6 +249,7 @@ export interface AISettings {
   configs: {
     [key in AIProvider]: AIConfig;
   };
+  fallbackProviders?: AIProvider[]; // Tried in this order when the active provider fails
 }
 
 export interface CloudSettings {